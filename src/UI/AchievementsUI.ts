@@ -0,0 +1,130 @@
+// PixiJS 솔리테어 - 업적 갤러리 UI (TypeScript)
+
+import type { AchievementTracker } from "@/game/AchievementTracker";
+
+export class AchievementsUI {
+  private tracker: AchievementTracker;
+  private modal: HTMLDivElement | null = null;
+
+  constructor(tracker: AchievementTracker) {
+    this.tracker = tracker;
+  }
+
+  public isOpen(): boolean {
+    return this.modal !== null && this.modal.isConnected;
+  }
+
+  // 업적 갤러리 표시
+  public show(): void {
+    this.hide();
+
+    const achievements = this.tracker.getAchievements();
+
+    const modal = document.createElement("div");
+    modal.className = "achievements-modal";
+    modal.style.cssText = `
+            position: fixed;
+            top: 0;
+            left: 0;
+            width: 100%;
+            height: 100%;
+            background: rgba(0, 0, 0, 0.8);
+            display: flex;
+            justify-content: center;
+            align-items: center;
+            z-index: 1000;
+        `;
+
+    const modalContent = document.createElement("div");
+    modalContent.style.cssText = `
+            background: white;
+            border-radius: 12px;
+            padding: 30px;
+            max-width: 520px;
+            width: 90%;
+            max-height: 80%;
+            overflow-y: auto;
+            color: #34495e;
+        `;
+
+    modalContent.innerHTML = `
+            <h2 style="color: #2c3e50; margin-bottom: 10px; text-align: center;">🏆 업적</h2>
+            <div style="color: #7f8c8d; font-size: 14px; margin-bottom: 20px; text-align: center;">
+                ${this.tracker.getUnlockedCount()} / ${achievements.length} 달성
+            </div>
+            <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 10px;">
+                ${achievements
+                  .map(
+                    ({ definition, unlockedAt }) => `
+                    <div style="
+                        padding: 12px;
+                        border-radius: 8px;
+                        background: ${unlockedAt ? "#fef9e7" : "#f2f3f4"};
+                        border: 2px solid ${
+                          unlockedAt ? "#f1c40f" : "transparent"
+                        };
+                        opacity: ${unlockedAt ? 1 : 0.6};
+                    ">
+                        <div style="font-size: 28px; filter: ${
+                          unlockedAt ? "none" : "grayscale(1)"
+                        };">${definition.icon}</div>
+                        <div style="font-weight: bold; margin: 4px 0;">${
+                          definition.title
+                        }</div>
+                        <div style="font-size: 12px; color: #7f8c8d;">${
+                          definition.description
+                        }</div>
+                        ${
+                          unlockedAt
+                            ? `<div style="font-size: 11px; color: #b9770e; margin-top: 6px;">${new Date(
+                                unlockedAt
+                              ).toLocaleDateString()} 달성</div>`
+                            : ""
+                        }
+                    </div>
+                `
+                  )
+                  .join("")}
+            </div>
+            <div style="display: flex; justify-content: center; margin-top: 20px;">
+                <button id="closeAchievements" style="
+                    background: #95a5a6;
+                    color: white;
+                    border: none;
+                    padding: 10px 20px;
+                    border-radius: 6px;
+                    cursor: pointer;
+                    font-weight: bold;
+                ">닫기</button>
+            </div>
+        `;
+
+    modal.appendChild(modalContent);
+    document.body.appendChild(modal);
+    this.modal = modal;
+
+    const closeBtn = document.getElementById("closeAchievements");
+    if (closeBtn) {
+      closeBtn.addEventListener("click", () => this.hide());
+    }
+
+    // 외부 클릭 시 닫기
+    modal.addEventListener("click", (e: Event) => {
+      if (e.target === modal) {
+        this.hide();
+      }
+    });
+  }
+
+  public hide(): void {
+    if (this.modal) {
+      this.modal.remove();
+      this.modal = null;
+    }
+  }
+
+  // 메모리 정리
+  public destroy(): void {
+    this.hide();
+  }
+}
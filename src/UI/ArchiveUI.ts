@@ -0,0 +1,314 @@
+// PixiJS 솔리테어 - 지난 게임 기록 보관함 UI (TypeScript)
+
+import { Utils } from "@/utils/Utils";
+import { GameArchive } from "@/game/GameArchive";
+import type { GameController } from "@/game/GameController";
+import type { GameRecord, GameResult } from "@/types/global";
+
+type ArchiveSort = "recent" | "time" | "score" | "moves";
+
+interface ArchiveFilter {
+  result: GameResult | "all";
+  drawCount: number | "all";
+  sort: ArchiveSort;
+}
+
+export class ArchiveUI {
+  private gameController: GameController;
+  private modal: HTMLDivElement | null = null;
+  private filter: ArchiveFilter = {
+    result: "all",
+    drawCount: "all",
+    sort: "recent",
+  };
+
+  private static readonly RESULT_LABELS: Record<GameResult, string> = {
+    won: "승리",
+    lost: "패배",
+    abandoned: "중단",
+  };
+
+  private static readonly RESULT_COLORS: Record<GameResult, string> = {
+    won: "#27ae60",
+    lost: "#e74c3c",
+    abandoned: "#95a5a6",
+  };
+
+  constructor(gameController: GameController) {
+    this.gameController = gameController;
+  }
+
+  public isOpen(): boolean {
+    return this.modal !== null && this.modal.isConnected;
+  }
+
+  // 기록 보관함 표시
+  public show(): void {
+    this.hide();
+
+    const modal = document.createElement("div");
+    modal.className = "archive-modal";
+    modal.style.cssText = `
+            position: fixed;
+            top: 0;
+            left: 0;
+            width: 100%;
+            height: 100%;
+            background: rgba(0, 0, 0, 0.8);
+            display: flex;
+            justify-content: center;
+            align-items: center;
+            z-index: 1000;
+        `;
+
+    // 외부 클릭 시 닫기
+    modal.addEventListener("click", (e: Event) => {
+      if (e.target === modal) {
+        this.hide();
+      }
+    });
+
+    document.body.appendChild(modal);
+    this.modal = modal;
+    this.render();
+  }
+
+  public hide(): void {
+    if (this.modal) {
+      this.modal.remove();
+      this.modal = null;
+    }
+  }
+
+  // 보관함 내용 그리기
+  private render(): void {
+    if (!this.modal) return;
+
+    const records = this.getFilteredRecords();
+
+    const modalContent = document.createElement("div");
+    modalContent.style.cssText = `
+            background: white;
+            border-radius: 12px;
+            padding: 30px;
+            max-width: 640px;
+            width: 90%;
+            max-height: 80%;
+            overflow-y: auto;
+            color: #34495e;
+        `;
+
+    modalContent.innerHTML = `
+            <h2 style="color: #2c3e50; margin-bottom: 10px; text-align: center;">📜 지난 게임</h2>
+            <div style="color: #7f8c8d; font-size: 12px; margin-bottom: 15px; text-align: center;">
+                보관된 ${this.gameController.gameState.archive.getRecords().length}게임 중 ${
+                  records.length
+                }게임 표시 (최근 ${GameArchive.MAX_RECORDS}게임까지 보관)
+            </div>
+        `;
+
+    modalContent.appendChild(this.createControls());
+
+    const list = document.createElement("div");
+    if (records.length === 0) {
+      list.innerHTML = `
+                <div style="text-align: center; color: #95a5a6; padding: 30px 0;">
+                    조건에 맞는 게임 기록이 없습니다.
+                </div>
+            `;
+    } else {
+      records.forEach((record) => list.appendChild(this.createRow(record)));
+    }
+    modalContent.appendChild(list);
+
+    const closeButton = document.createElement("button");
+    closeButton.textContent = "닫기";
+    closeButton.style.cssText = `
+            background: #95a5a6;
+            color: white;
+            border: none;
+            padding: 10px 20px;
+            border-radius: 6px;
+            cursor: pointer;
+            font-weight: bold;
+            margin-top: 20px;
+            width: 100%;
+        `;
+    closeButton.addEventListener("click", () => this.hide());
+    modalContent.appendChild(closeButton);
+
+    this.modal.innerHTML = "";
+    this.modal.appendChild(modalContent);
+  }
+
+  // 필터와 정렬 선택
+  private createControls(): HTMLDivElement {
+    const controls = document.createElement("div");
+    controls.style.cssText = `
+            display: grid;
+            grid-template-columns: 1fr 1fr 1fr;
+            gap: 10px;
+            margin-bottom: 15px;
+        `;
+
+    const selectStyle =
+      "width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px;";
+    const option = (value: string, label: string, current: string) =>
+      `<option value="${value}" ${
+        value === current ? "selected" : ""
+      }>${label}</option>`;
+
+    controls.innerHTML = `
+            <label style="font-size: 12px;">결과
+                <select id="archiveResult" style="${selectStyle}">
+                    ${option("all", "전체", this.filter.result)}
+                    ${option("won", "승리", this.filter.result)}
+                    ${option("lost", "패배", this.filter.result)}
+                    ${option("abandoned", "중단", this.filter.result)}
+                </select>
+            </label>
+            <label style="font-size: 12px;">뽑기
+                <select id="archiveDrawCount" style="${selectStyle}">
+                    ${option("all", "전체", String(this.filter.drawCount))}
+                    ${option("1", "1장", String(this.filter.drawCount))}
+                    ${option("3", "3장", String(this.filter.drawCount))}
+                </select>
+            </label>
+            <label style="font-size: 12px;">정렬
+                <select id="archiveSort" style="${selectStyle}">
+                    ${option("recent", "최근 순", this.filter.sort)}
+                    ${option("time", "짧은 시간 순", this.filter.sort)}
+                    ${option("score", "높은 점수 순", this.filter.sort)}
+                    ${option("moves", "적은 이동 순", this.filter.sort)}
+                </select>
+            </label>
+        `;
+
+    const bindSelect = (id: string, apply: (value: string) => void) => {
+      const select = controls.querySelector<HTMLSelectElement>(`#${id}`);
+      if (select) {
+        select.addEventListener("change", () => {
+          apply(select.value);
+          this.render();
+        });
+      }
+    };
+
+    bindSelect("archiveResult", (value) => {
+      this.filter.result = value as ArchiveFilter["result"];
+    });
+    bindSelect("archiveDrawCount", (value) => {
+      this.filter.drawCount = value === "all" ? "all" : parseInt(value);
+    });
+    bindSelect("archiveSort", (value) => {
+      this.filter.sort = value as ArchiveSort;
+    });
+
+    return controls;
+  }
+
+  private getFilteredRecords(): GameRecord[] {
+    const { result, drawCount, sort } = this.filter;
+
+    const records = this.gameController.gameState.archive
+      .getRecords()
+      .filter(
+        (record) =>
+          (result === "all" || record.result === result) &&
+          (drawCount === "all" || record.drawCount === drawCount)
+      );
+
+    switch (sort) {
+      case "time":
+        return records.sort((a, b) => a.time - b.time);
+      case "score":
+        return records.sort((a, b) => b.score - a.score);
+      case "moves":
+        return records.sort((a, b) => a.moves - b.moves);
+      case "recent":
+        return records.sort((a, b) => b.finishedAt - a.finishedAt);
+    }
+  }
+
+  private createRow(record: GameRecord): HTMLDivElement {
+    const row = document.createElement("div");
+    row.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 10px;
+            padding: 10px;
+            margin-bottom: 6px;
+            background: #f8f9fa;
+            border-radius: 8px;
+            font-size: 13px;
+        `;
+
+    const finishedAt = new Date(record.finishedAt).toLocaleString();
+    const deal =
+      record.dealSeed !== null ? `딜 #${record.dealSeed}` : "딜 없음";
+
+    row.innerHTML = `
+            <div style="
+                min-width: 44px;
+                text-align: center;
+                font-weight: bold;
+                color: ${ArchiveUI.RESULT_COLORS[record.result]};
+            ">${ArchiveUI.RESULT_LABELS[record.result]}</div>
+            <div style="flex: 1;">
+                <div><strong>${deal}</strong> · ${record.drawCount}장 뽑기</div>
+                <div style="color: #7f8c8d; font-size: 12px;">
+                    ${Utils.formatTime(record.time)} · 이동 ${
+                      record.moves
+                    } · 점수 ${record.score.toLocaleString()} · 힌트 ${
+                      record.hintsUsed
+                    } · 되돌리기 ${record.undosUsed}
+                </div>
+                <div style="color: #95a5a6; font-size: 11px;">${finishedAt}</div>
+            </div>
+        `;
+
+    if (record.dealSeed !== null) {
+      const dealNumber = record.dealSeed;
+      const replayButton = document.createElement("button");
+      replayButton.textContent = "다시 하기";
+      replayButton.style.cssText = `
+                background: #3498db;
+                color: white;
+                border: none;
+                padding: 8px 12px;
+                border-radius: 6px;
+                cursor: pointer;
+                font-weight: bold;
+            `;
+      replayButton.addEventListener("click", () => {
+        this.replay(dealNumber, record);
+      });
+      row.appendChild(replayButton);
+    }
+
+    return row;
+  }
+
+  // 기록된 딜을 같은 게임 종류와 뽑기·무늬 수 규칙으로 다시 시작
+  private replay(dealNumber: number, record: GameRecord): void {
+    if (
+      this.gameController.gameState.isPlaying() &&
+      !confirm(`진행 중인 게임을 끝내고 딜 #${dealNumber}을 시작하시겠습니까?`)
+    ) {
+      return;
+    }
+
+    this.hide();
+    this.gameController.replayDeal(
+      dealNumber,
+      record.drawCount,
+      record.variant,
+      record.ruleKey
+    );
+  }
+
+  // 메모리 정리
+  public destroy(): void {
+    this.hide();
+  }
+}
@@ -2,6 +2,8 @@
 
 import * as PIXI from "pixi.js";
 import { CONSTANTS } from "@/core/Constants";
+import { Utils } from "@/utils/Utils";
+import type { VariantDefinition } from "@/variants/Variant";
 import type { GameController } from "@/game/GameController";
 
 export class GameBoard {
@@ -13,6 +15,8 @@ export class GameBoard {
   private wastePile: PIXI.Container | null = null;
   private foundations: PIXI.Container[] = [];
   private tableaus: PIXI.Container[] = [];
+  private slotLayer: PIXI.Container | null = null;
+  private variant: VariantDefinition | null = null;
   private initialized: boolean = false;
 
   // 게임 컨트롤러 참조
@@ -125,11 +129,15 @@ export class GameBoard {
   }
 
   private drawCardSlots(): void {
-    const margin = CONSTANTS.MARGIN * this.scale;
+    // 스택들보다 아래에 그려지도록 배경과 함께 빈 자리 레이어를 둠
+    this.slotLayer = new PIXI.Container();
+    this.container.addChild(this.slotLayer);
+
+    if (!this.variant) return;
+
     const cardWidth = CONSTANTS.CARD_WIDTH * CONSTANTS.CARD_SCALE * this.scale;
     const cardHeight =
       CONSTANTS.CARD_HEIGHT * CONSTANTS.CARD_SCALE * this.scale;
-    const gap = 10 * this.scale;
     const cornerRadius = 8 * this.scale; // 카드와 동일한 모서리 둥글기
 
     // 패널을 그리는 함수
@@ -141,41 +149,37 @@ export class GameBoard {
       return slot;
     };
 
-    // Stock Pile 위치 (좌하단)
-    const stockSlot = createSlot(
-      margin,
-      this.screenHeight - margin - cardHeight
-    );
-    this.container.addChild(stockSlot);
+    // 게임 종류가 정한 모든 스택 자리
+    for (const pile of this.variant.piles) {
+      for (let index = 0; index < pile.count; index++) {
+        const position = Utils.getStackPosition(
+          this.variant,
+          { type: pile.type, index },
+          this.scale
+        );
+        this.slotLayer.addChild(createSlot(position.x, position.y));
+      }
+    }
+  }
 
-    // Waste Pile 위치 (Stock 옆, 좌하단)
-    const wasteSlot = createSlot(
-      margin + cardWidth + gap,
-      this.screenHeight - margin - cardHeight
-    );
-    this.container.addChild(wasteSlot);
-
-    // Foundation 위치들 (우하단 4개)
-    const foundationStartX = this.screenWidth - margin - (cardWidth + gap) * 4;
-    for (let i = 0; i < CONSTANTS.GAME.FOUNDATION_PILES; i++) {
-      const foundationSlot = createSlot(
-        foundationStartX + i * (cardWidth + gap),
-        this.screenHeight - margin - cardHeight
-      );
-      this.container.addChild(foundationSlot);
+  // 게임 종류에 맞게 카드 자리 다시 그리기
+  public setVariant(variant: VariantDefinition): void {
+    this.variant = variant;
+
+    const previous = this.slotLayer;
+    if (!previous || previous.parent !== this.container) {
+      this.drawCardSlots();
+      return;
     }
 
-    // Tableau 위치들 (상단 중앙 7개)
-    const tableauTotalWidth = cardWidth * 7 + gap * 6;
-    const tableauStartX = (this.screenWidth - tableauTotalWidth) / 2;
-    const tableauStartY = margin;
-
-    for (let i = 0; i < CONSTANTS.GAME.TABLEAU_COLUMNS; i++) {
-      const tableauSlot = createSlot(
-        tableauStartX + i * (cardWidth + gap),
-        tableauStartY
-      );
-      this.container.addChild(tableauSlot);
+    // 이전 레이어 자리(스택들 아래)에 새 레이어를 끼워 넣음
+    const index = this.container.getChildIndex(previous);
+    this.container.removeChild(previous);
+    previous.destroy({ children: true });
+
+    this.drawCardSlots();
+    if (this.slotLayer) {
+      this.container.setChildIndex(this.slotLayer, index);
     }
   }
 
@@ -0,0 +1,234 @@
+// PixiJS 솔리테어 - 이동 기록 패널 UI (TypeScript)
+
+import type { GameController } from "@/game/GameController";
+import type { HistoryNode } from "@/game/GameState";
+import type { MoveData } from "@/types/global";
+
+export class HistoryUI {
+  private gameController: GameController;
+  private modal: HTMLDivElement | null = null;
+
+  constructor(gameController: GameController) {
+    this.gameController = gameController;
+
+    // 게임 상태가 바뀌면 열려 있는 패널 갱신
+    document.addEventListener("gameStateChanged", () => {
+      if (this.isOpen()) {
+        this.render();
+      }
+    });
+  }
+
+  public isOpen(): boolean {
+    return this.modal !== null && this.modal.isConnected;
+  }
+
+  // 이동 기록 패널 표시
+  public show(): void {
+    this.hide();
+
+    const modal = document.createElement("div");
+    modal.className = "history-modal";
+    modal.style.cssText = `
+            position: fixed;
+            top: 0;
+            left: 0;
+            width: 100%;
+            height: 100%;
+            background: rgba(0, 0, 0, 0.6);
+            display: flex;
+            justify-content: flex-end;
+            align-items: stretch;
+            z-index: 1000;
+        `;
+
+    // 외부 클릭 시 닫기
+    modal.addEventListener("click", (e: Event) => {
+      if (e.target === modal) {
+        this.hide();
+      }
+    });
+
+    document.body.appendChild(modal);
+    this.modal = modal;
+    this.render();
+  }
+
+  public hide(): void {
+    if (this.modal) {
+      this.modal.remove();
+      this.modal = null;
+    }
+  }
+
+  // 패널 내용 그리기
+  private render(): void {
+    if (!this.modal) return;
+
+    const gameState = this.gameController.gameState;
+    const nodes = new Map(
+      gameState.getHistoryNodes().map((node) => [node.id, node])
+    );
+    const currentId = gameState.getCurrentNodeId();
+
+    const panel = document.createElement("div");
+    panel.style.cssText = `
+            background: white;
+            width: 320px;
+            max-width: 90%;
+            height: 100%;
+            padding: 20px;
+            overflow-y: auto;
+            box-shadow: -4px 0 20px rgba(0, 0, 0, 0.4);
+            color: #34495e;
+            font-size: 14px;
+        `;
+
+    panel.innerHTML = `
+            <h2 style="color: #2c3e50; margin-bottom: 10px;">🕘 이동 기록</h2>
+            <div style="color: #7f8c8d; font-size: 12px; margin-bottom: 15px;">
+                항목을 클릭하면 그 시점으로 이동합니다. 되돌린 뒤 새로 둔 수는 새 가지로 남습니다.
+            </div>
+        `;
+
+    const list = document.createElement("div");
+    const root = nodes.get(0);
+    if (root) {
+      this.renderBranch(list, nodes, root, 0, currentId);
+    }
+    panel.appendChild(list);
+
+    const closeButton = document.createElement("button");
+    closeButton.textContent = "닫기";
+    closeButton.style.cssText = `
+            background: #95a5a6;
+            color: white;
+            border: none;
+            padding: 10px 20px;
+            border-radius: 6px;
+            cursor: pointer;
+            font-weight: bold;
+            margin-top: 20px;
+            width: 100%;
+        `;
+    closeButton.addEventListener("click", () => this.hide());
+    panel.appendChild(closeButton);
+
+    this.modal.innerHTML = "";
+    this.modal.appendChild(panel);
+  }
+
+  // 하나의 가지를 그림: 첫 번째 자식은 같은 줄기로, 나머지는 들여쓴 가지로
+  private renderBranch(
+    container: HTMLElement,
+    nodes: Map<number, HistoryNode>,
+    start: HistoryNode,
+    depth: number,
+    currentId: number
+  ): void {
+    let node: HistoryNode | undefined = start;
+
+    while (node) {
+      container.appendChild(this.createNodeRow(node, depth, currentId));
+
+      const children: number[] = node.children;
+      const [mainChildId, ...branchIds] = children;
+      branchIds.forEach((branchId) => {
+        const branch = nodes.get(branchId);
+        if (branch) {
+          this.renderBranch(container, nodes, branch, depth + 1, currentId);
+        }
+      });
+
+      node = mainChildId !== undefined ? nodes.get(mainChildId) : undefined;
+    }
+  }
+
+  private createNodeRow(
+    node: HistoryNode,
+    depth: number,
+    currentId: number
+  ): HTMLDivElement {
+    const isCurrent = node.id === currentId;
+    const row = document.createElement("div");
+    row.style.cssText = `
+            padding: 6px 10px;
+            margin-left: ${depth * 16}px;
+            border-left: ${depth > 0 ? "2px solid #bdc3c7" : "none"};
+            border-radius: 4px;
+            cursor: pointer;
+            background: ${isCurrent ? "#3498db" : "transparent"};
+            color: ${isCurrent ? "white" : "#34495e"};
+            font-weight: ${isCurrent ? "bold" : "normal"};
+        `;
+
+    const moveNumber = node.move?.moveNumber ?? 0;
+    row.textContent = node.move
+      ? `#${moveNumber} ${this.describeMove(node.move)}`
+      : "#0 게임 시작";
+
+    row.addEventListener("mouseenter", () => {
+      if (!isCurrent) row.style.backgroundColor = "#f5f5f5";
+    });
+    row.addEventListener("mouseleave", () => {
+      if (!isCurrent) row.style.backgroundColor = "transparent";
+    });
+    row.addEventListener("click", () => {
+      if (!isCurrent) {
+        this.gameController.jumpToHistoryNode(node.id);
+      }
+    });
+
+    return row;
+  }
+
+  // 이동 기록을 읽기 쉬운 문장으로 변환
+  private describeMove(move: MoveData): string {
+    const stackNames: Record<string, string> = {
+      stock: "덱",
+      waste: "버린 카드",
+      foundation: "정리 영역",
+      tableau: "카드 줄",
+      cell: "빈 칸",
+      pyramid: "피라미드",
+    };
+    // 같은 종류가 여러 개라 번호를 붙이는 스택
+    const numbered = ["foundation", "tableau", "cell", "pyramid"];
+    const name = (type?: string, index?: number): string => {
+      const label = stackNames[type || ""] || type || "?";
+      return numbered.includes(type || "")
+        ? `${label} ${(index || 0) + 1}`
+        : label;
+    };
+
+    switch (move.type) {
+      case "card_move":
+        return `${move.card}: ${name(move.from, move.fromIndex)} → ${name(
+          move.to,
+          move.toIndex
+        )}`;
+      case "multi_card_move":
+        return `${move.count}장: ${name(move.from, move.fromIndex)} → ${name(
+          move.to,
+          move.toIndex
+        )}`;
+      case "stock_to_waste":
+        return `카드 ${move.count}장 뽑기`;
+      case "waste_to_stock":
+        return "버린 카드 재활용";
+      case "stock_to_tableau":
+        return `카드 줄마다 한 장씩 딜 (${move.count}장)`;
+      case "pair_removal":
+        return `${(move.cards ?? []).join(" + ")} 짝 맞춰 치우기`;
+      case "card_flip":
+        return `${move.card} 뒤집기`;
+      default:
+        return move.type;
+    }
+  }
+
+  // 메모리 정리
+  public destroy(): void {
+    this.hide();
+  }
+}
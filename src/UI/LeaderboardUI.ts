@@ -0,0 +1,313 @@
+// PixiJS 솔리테어 - 로컬 순위표 UI (TypeScript)
+
+import { Utils } from "@/utils/Utils";
+import { GameState } from "@/game/GameState";
+import { Leaderboard } from "@/game/Leaderboard";
+import type { GameController } from "@/game/GameController";
+import type { LeaderboardCategory, LeaderboardEntry } from "@/types/global";
+
+// 순위표에서 보고 있는 범위
+interface LeaderboardView {
+  ruleKey: string;
+  dealSeed: number | null; // null이면 전체
+  category: LeaderboardCategory;
+}
+
+export class LeaderboardUI {
+  private gameController: GameController;
+  private modal: HTMLDivElement | null = null;
+  private view: LeaderboardView = {
+    ruleKey: "",
+    dealSeed: null,
+    category: "score",
+  };
+
+  static readonly CATEGORY_LABELS: Record<LeaderboardCategory, string> = {
+    score: "높은 점수",
+    time: "짧은 시간",
+    moves: "적은 이동",
+  };
+
+  constructor(gameController: GameController) {
+    this.gameController = gameController;
+  }
+
+  public isOpen(): boolean {
+    return this.modal !== null && this.modal.isConnected;
+  }
+
+  // 순위표 표시 (기본은 현재 게임의 규칙 구성 전체 순위)
+  public show(options: Partial<LeaderboardView> = {}): void {
+    this.hide();
+
+    this.view = {
+      ruleKey: this.gameController.gameState.ruleKey,
+      dealSeed: null,
+      category: "score",
+      ...options,
+    };
+
+    const modal = document.createElement("div");
+    modal.className = "leaderboard-modal";
+    modal.style.cssText = `
+            position: fixed;
+            top: 0;
+            left: 0;
+            width: 100%;
+            height: 100%;
+            background: rgba(0, 0, 0, 0.8);
+            display: flex;
+            justify-content: center;
+            align-items: center;
+            z-index: 1000;
+        `;
+
+    // 외부 클릭 시 닫기
+    modal.addEventListener("click", (e: Event) => {
+      if (e.target === modal) {
+        this.hide();
+      }
+    });
+
+    document.body.appendChild(modal);
+    this.modal = modal;
+    this.render();
+  }
+
+  public hide(): void {
+    if (this.modal) {
+      this.modal.remove();
+      this.modal = null;
+    }
+  }
+
+  // 순위표 내용 그리기
+  private render(): void {
+    if (!this.modal) return;
+
+    const { ruleKey, dealSeed, category } = this.view;
+    const entries = this.gameController.gameState.leaderboard.getTop(
+      category,
+      ruleKey,
+      dealSeed
+    );
+
+    const modalContent = document.createElement("div");
+    modalContent.style.cssText = `
+            background: white;
+            border-radius: 12px;
+            padding: 30px;
+            max-width: 560px;
+            width: 90%;
+            max-height: 80%;
+            overflow-y: auto;
+            color: #34495e;
+        `;
+
+    modalContent.innerHTML = `
+            <h2 style="color: #2c3e50; margin-bottom: 10px; text-align: center;">🏆 순위표</h2>
+            <div style="color: #7f8c8d; font-size: 12px; margin-bottom: 15px; text-align: center;">
+                승리한 게임의 분야별 상위 ${Leaderboard.SIZE}개 기록
+            </div>
+        `;
+
+    modalContent.appendChild(this.createControls());
+
+    const list = document.createElement("div");
+    if (entries.length === 0) {
+      list.innerHTML = `
+                <div style="text-align: center; color: #95a5a6; padding: 30px 0;">
+                    아직 기록이 없습니다.
+                </div>
+            `;
+    } else {
+      entries.forEach((entry, index) =>
+        list.appendChild(this.createRow(entry, index + 1))
+      );
+    }
+    modalContent.appendChild(list);
+
+    const closeButton = document.createElement("button");
+    closeButton.textContent = "닫기";
+    closeButton.style.cssText = `
+            background: #95a5a6;
+            color: white;
+            border: none;
+            padding: 10px 20px;
+            border-radius: 6px;
+            cursor: pointer;
+            font-weight: bold;
+            margin-top: 20px;
+            width: 100%;
+        `;
+    closeButton.addEventListener("click", () => this.hide());
+    modalContent.appendChild(closeButton);
+
+    this.modal.innerHTML = "";
+    this.modal.appendChild(modalContent);
+  }
+
+  // 규칙 구성, 범위(전체/딜), 분야 선택
+  private createControls(): HTMLDivElement {
+    const leaderboard = this.gameController.gameState.leaderboard;
+    const { ruleKey, dealSeed, category } = this.view;
+
+    const ruleKeys = [...new Set([...leaderboard.getRuleKeys(), ruleKey])];
+    const dealSeeds = [
+      ...new Set([
+        ...leaderboard.getDealSeeds(ruleKey),
+        ...(dealSeed !== null ? [dealSeed] : []),
+      ]),
+    ];
+
+    const controls = document.createElement("div");
+    controls.style.cssText = `
+            display: grid;
+            grid-template-columns: 1fr 1fr 1fr;
+            gap: 10px;
+            margin-bottom: 15px;
+        `;
+
+    const selectStyle =
+      "width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px;";
+    const option = (value: string, label: string, current: string) =>
+      `<option value="${value}" ${
+        value === current ? "selected" : ""
+      }>${label}</option>`;
+
+    controls.innerHTML = `
+            <label style="font-size: 12px;">규칙
+                <select id="leaderboardRule" style="${selectStyle}">
+                    ${ruleKeys
+                      .map((key) =>
+                        option(key, GameState.describeRuleKey(key), ruleKey)
+                      )
+                      .join("")}
+                </select>
+            </label>
+            <label style="font-size: 12px;">범위
+                <select id="leaderboardDeal" style="${selectStyle}">
+                    ${option("all", "전체", String(dealSeed ?? "all"))}
+                    ${dealSeeds
+                      .map((seed) =>
+                        option(String(seed), `딜 #${seed}`, String(dealSeed))
+                      )
+                      .join("")}
+                </select>
+            </label>
+            <label style="font-size: 12px;">분야
+                <select id="leaderboardCategory" style="${selectStyle}">
+                    ${Leaderboard.CATEGORIES.map((key) =>
+                      option(key, LeaderboardUI.CATEGORY_LABELS[key], category)
+                    ).join("")}
+                </select>
+            </label>
+        `;
+
+    const bindSelect = (id: string, apply: (value: string) => void) => {
+      const select = controls.querySelector<HTMLSelectElement>(`#${id}`);
+      if (select) {
+        select.addEventListener("change", () => {
+          apply(select.value);
+          this.render();
+        });
+      }
+    };
+
+    bindSelect("leaderboardRule", (value) => {
+      this.view.ruleKey = value;
+      this.view.dealSeed = null;
+    });
+    bindSelect("leaderboardDeal", (value) => {
+      this.view.dealSeed = value === "all" ? null : Number(value);
+    });
+    bindSelect("leaderboardCategory", (value) => {
+      this.view.category = value as LeaderboardCategory;
+    });
+
+    return controls;
+  }
+
+  private createRow(entry: LeaderboardEntry, rank: number): HTMLDivElement {
+    const row = document.createElement("div");
+    row.style.cssText = `
+            display: flex;
+            align-items: center;
+            gap: 10px;
+            padding: 10px;
+            margin-bottom: 6px;
+            background: ${rank <= 3 ? "#fef9e7" : "#f8f9fa"};
+            border-radius: 8px;
+            font-size: 13px;
+        `;
+
+    const deal = entry.dealSeed !== null ? `딜 #${entry.dealSeed}` : "딜 없음";
+
+    row.innerHTML = `
+            <div style="min-width: 32px; text-align: center; font-weight: bold; font-size: 16px;">${rank}</div>
+            <div style="flex: 1;">
+                <div><strong class="leaderboard-name"></strong> · ${deal}</div>
+                <div style="color: #7f8c8d; font-size: 12px;">
+                    점수 ${entry.score.toLocaleString()} · ${Utils.formatTime(
+                      entry.time
+                    )} · 이동 ${entry.moves}
+                </div>
+                <div style="color: #95a5a6; font-size: 11px;">${new Date(
+                  entry.date
+                ).toLocaleString()}</div>
+            </div>
+        `;
+
+    // 이름은 사용자가 입력한 값이므로 텍스트로만 넣음
+    const name = row.querySelector(".leaderboard-name");
+    if (name) name.textContent = entry.name;
+
+    if (entry.dealSeed !== null) {
+      const dealNumber = entry.dealSeed;
+      const replayButton = document.createElement("button");
+      replayButton.textContent = "다시 하기";
+      replayButton.style.cssText = `
+                background: #3498db;
+                color: white;
+                border: none;
+                padding: 8px 12px;
+                border-radius: 6px;
+                cursor: pointer;
+                font-weight: bold;
+            `;
+      replayButton.addEventListener("click", () => {
+        this.replay(dealNumber, entry.drawCount, entry.ruleKey);
+      });
+      row.appendChild(replayButton);
+    }
+
+    return row;
+  }
+
+  // 기록된 딜을 같은 게임 종류와 뽑기·무늬 수 규칙으로 다시 시작
+  private replay(
+    dealNumber: number,
+    drawCount: number,
+    ruleKey: string
+  ): void {
+    if (
+      this.gameController.gameState.isPlaying() &&
+      !confirm(`진행 중인 게임을 끝내고 딜 #${dealNumber}을 시작하시겠습니까?`)
+    ) {
+      return;
+    }
+
+    this.hide();
+    this.gameController.replayDeal(
+      dealNumber,
+      drawCount,
+      ruleKey.split("/")[0],
+      ruleKey
+    );
+  }
+
+  // 메모리 정리
+  public destroy(): void {
+    this.hide();
+  }
+}
@@ -0,0 +1,170 @@
+// PixiJS 솔리테어 - 경기 점수표 UI (골프 9홀)
+
+import type { Match } from "@/game/Match";
+import { VariantRegistry } from "@/variants/VariantRegistry";
+
+export class MatchUI {
+  private match: Match;
+  private onNextRound: () => void;
+  private modal: HTMLDivElement | null = null;
+
+  constructor(match: Match, onNextRound: () => void) {
+    this.match = match;
+    this.onNextRound = onNextRound;
+  }
+
+  public isOpen(): boolean {
+    return this.modal !== null && this.modal.isConnected;
+  }
+
+  // 점수표 표시 (경기가 끝나지 않았으면 다음 홀로, 끝났으면 새 경기로 이어짐)
+  public show(): void {
+    this.hide();
+
+    const variant = this.match.getVariant();
+    if (variant === null) return;
+
+    const rounds = this.match.getRounds();
+    const totalRounds = this.match.getTotalRounds();
+    const isComplete = this.match.isComplete();
+    const lastRound = rounds[rounds.length - 1];
+
+    const modal = document.createElement("div");
+    modal.className = "match-modal";
+    modal.style.cssText = `
+            position: fixed;
+            top: 0;
+            left: 0;
+            width: 100%;
+            height: 100%;
+            background: rgba(0, 0, 0, 0.8);
+            display: flex;
+            justify-content: center;
+            align-items: center;
+            z-index: 1000;
+        `;
+
+    const modalContent = document.createElement("div");
+    modalContent.style.cssText = `
+            background: white;
+            border-radius: 12px;
+            padding: 30px;
+            max-width: 560px;
+            width: 90%;
+            color: #34495e;
+            text-align: center;
+        `;
+
+    const cellStyle =
+      "padding: 6px 4px; border: 1px solid #d5dbdb; min-width: 28px;";
+    const holes = Array.from({ length: totalRounds }, (_, index) => index);
+
+    modalContent.innerHTML = `
+            <h2 style="color: #2c3e50; margin-bottom: 10px;">⛳ ${
+              VariantRegistry.get(variant).name
+            } 점수표</h2>
+            <div style="color: #7f8c8d; font-size: 14px; margin-bottom: 20px;">
+                ${
+                  isComplete
+                    ? `${totalRounds}홀 경기 종료! 총점 <strong>${this.match.getTotal()}</strong>`
+                    : lastRound
+                      ? `${rounds.length}번 홀 ${
+                          lastRound.cleared ? "모두 치움" : "종료"
+                        } · ${lastRound.score}점`
+                      : "경기를 시작했어요."
+                }
+            </div>
+            <div style="overflow-x: auto;">
+                <table style="border-collapse: collapse; margin: 0 auto; font-size: 14px;">
+                    <tr style="background: #ecf0f1;">
+                        <th style="${cellStyle}">홀</th>
+                        ${holes
+                          .map(
+                            (index) =>
+                              `<th style="${cellStyle}">${index + 1}</th>`
+                          )
+                          .join("")}
+                        <th style="${cellStyle}">합계</th>
+                    </tr>
+                    <tr>
+                        <th style="${cellStyle}">점수</th>
+                        ${holes
+                          .map((index) => {
+                            const round = rounds[index];
+                            return `<td style="${cellStyle} ${
+                              round?.cleared
+                                ? "color: #27ae60; font-weight: bold;"
+                                : ""
+                            }">${round ? round.score : "-"}</td>`;
+                          })
+                          .join("")}
+                        <td style="${cellStyle} font-weight: bold;">${this.match.getTotal()}</td>
+                    </tr>
+                </table>
+            </div>
+            <div style="color: #7f8c8d; font-size: 12px; margin-top: 10px;">
+                점수는 카드 줄에 남은 카드 수이며 낮을수록 좋습니다.
+            </div>
+            <div style="display: flex; justify-content: center; gap: 10px; margin-top: 20px;">
+                <button id="matchNextRound" style="
+                    background: #27ae60;
+                    color: white;
+                    border: none;
+                    padding: 10px 20px;
+                    border-radius: 6px;
+                    cursor: pointer;
+                    font-weight: bold;
+                ">${
+                  isComplete
+                    ? "새 경기"
+                    : `다음 홀 (${this.match.getCurrentRound()}/${totalRounds})`
+                }</button>
+                <button id="closeMatch" style="
+                    background: #95a5a6;
+                    color: white;
+                    border: none;
+                    padding: 10px 20px;
+                    border-radius: 6px;
+                    cursor: pointer;
+                    font-weight: bold;
+                ">닫기</button>
+            </div>
+        `;
+
+    modal.appendChild(modalContent);
+    document.body.appendChild(modal);
+    this.modal = modal;
+
+    const nextBtn = document.getElementById("matchNextRound");
+    if (nextBtn) {
+      nextBtn.addEventListener("click", () => {
+        this.hide();
+        this.onNextRound();
+      });
+    }
+
+    const closeBtn = document.getElementById("closeMatch");
+    if (closeBtn) {
+      closeBtn.addEventListener("click", () => this.hide());
+    }
+
+    // 외부 클릭 시 닫기
+    modal.addEventListener("click", (e: Event) => {
+      if (e.target === modal) {
+        this.hide();
+      }
+    });
+  }
+
+  public hide(): void {
+    if (this.modal) {
+      this.modal.remove();
+      this.modal = null;
+    }
+  }
+
+  // 메모리 정리
+  public destroy(): void {
+    this.hide();
+  }
+}
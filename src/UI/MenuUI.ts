@@ -1,13 +1,17 @@
 // PixiJS 솔리테어 - 메뉴 UI 관리 (TypeScript)
 
 import type { GameController } from '@/game/GameController';
+import { CONSTANTS } from '@/core/Constants';
 import { Utils } from '@/utils/Utils';
-import type { GameSettings } from '@/types/global';
+import { VariantRegistry } from '@/variants/VariantRegistry';
+import type { GameSettings, ScoringMode } from '@/types/global';
 
 export interface ButtonElements {
   newGame: HTMLButtonElement | null;
   undo: HTMLButtonElement | null;
+  redo: HTMLButtonElement | null;
   hint: HTMLButtonElement | null;
+  history: HTMLButtonElement | null;
 }
 
 export class MenuUI {
@@ -26,7 +30,9 @@ export class MenuUI {
     return {
       newGame: document.getElementById('newGameBtn') as HTMLButtonElement | null,
       undo: document.getElementById('undoBtn') as HTMLButtonElement | null,
+      redo: document.getElementById('redoBtn') as HTMLButtonElement | null,
       hint: document.getElementById('hintBtn') as HTMLButtonElement | null,
+      history: document.getElementById('historyBtn') as HTMLButtonElement | null,
     };
   }
 
@@ -45,6 +51,13 @@ export class MenuUI {
       });
     }
 
+    // 다시 실행 버튼
+    if (this.buttons.redo) {
+      this.buttons.redo.addEventListener('click', () => {
+        this.handleRedo();
+      });
+    }
+
     // 힌트 버튼
     if (this.buttons.hint) {
       this.buttons.hint.addEventListener('click', () => {
@@ -52,6 +65,13 @@ export class MenuUI {
       });
     }
 
+    // 이동 기록 버튼
+    if (this.buttons.history) {
+      this.buttons.history.addEventListener('click', () => {
+        this.gameController.showHistoryPanel();
+      });
+    }
+
     // 키보드 단축키
     document.addEventListener('keydown', (e: KeyboardEvent) => {
       this.handleKeyboard(e);
@@ -65,20 +85,101 @@ export class MenuUI {
 
   // 새 게임 처리
   private handleNewGame(): void {
-    if (this.gameController.gameState.isPlaying()) {
-      // 진행 중인 게임이 있으면 확인
-      if (confirm('진행 중인 게임이 있습니다. 새 게임을 시작하시겠습니까?')) {
-        this.gameController.newGame();
-      }
-    } else {
-      this.gameController.newGame();
-    }
+    this.showVariantPicker();
 
     if (this.buttons.newGame) {
       this.animateButton(this.buttons.newGame);
     }
   }
 
+  // 새 게임의 게임 종류 선택 모달 표시
+  private showVariantPicker(): void {
+    document.querySelectorAll('.variant-modal').forEach((existing) => existing.remove());
+
+    const modal = this.createModal('variant');
+    const currentId = this.gameController.gameState.settings.variant;
+
+    const options = VariantRegistry.list()
+      .map((variant) => {
+        const isCurrent = variant.id === currentId;
+        return `
+                <button data-variant="${variant.id}" style="
+                    display: block;
+                    width: 100%;
+                    text-align: left;
+                    padding: 12px 15px;
+                    margin-bottom: 10px;
+                    border: 2px solid ${isCurrent ? '#3498db' : '#ddd'};
+                    border-radius: 8px;
+                    background: ${isCurrent ? '#ebf5fb' : 'white'};
+                    cursor: pointer;
+                ">
+                    <div style="font-weight: bold; color: #2c3e50;">${variant.name}</div>
+                    <div style="font-size: 12px; color: #7f8c8d; margin-top: 4px;">${variant.description}</div>
+                </button>
+            `;
+      })
+      .join('');
+
+    modal.innerHTML = `
+            <div style="background: white; border-radius: 12px; padding: 30px; max-width: 400px; width: 90%; max-height: 80%; overflow-y: auto;">
+                <h2 style="color: #2c3e50; margin-bottom: 20px;">🃏 새 게임</h2>
+                ${options}
+                <button id="cancelVariant" style="
+                    background: #95a5a6;
+                    color: white;
+                    border: none;
+                    padding: 10px 20px;
+                    border-radius: 6px;
+                    cursor: pointer;
+                    font-weight: bold;
+                    margin-top: 10px;
+                    width: 100%;
+                ">취소</button>
+            </div>
+        `;
+
+    document.body.appendChild(modal);
+
+    modal.querySelectorAll<HTMLButtonElement>('[data-variant]').forEach((button) => {
+      button.addEventListener('click', () => {
+        modal.remove();
+        this.startVariant(button.dataset.variant ?? currentId);
+      });
+    });
+
+    // 취소 버튼
+    const cancelButton = document.getElementById('cancelVariant');
+    if (cancelButton) {
+      cancelButton.addEventListener('click', () => {
+        modal.remove();
+      });
+    }
+
+    // 외부 클릭 시 닫기
+    modal.addEventListener('click', (e: Event) => {
+      if (e.target === modal) {
+        modal.remove();
+      }
+    });
+  }
+
+  // 고른 게임 종류로 새 게임 시작
+  private startVariant(variantId: string): void {
+    // 진행 중인 게임이 있으면 확인
+    if (
+      this.gameController.gameState.isPlaying() &&
+      !confirm('진행 중인 게임이 있습니다. 새 게임을 시작하시겠습니까?')
+    ) {
+      return;
+    }
+
+    if (this.gameController.gameState.settings.variant !== variantId) {
+      this.gameController.gameState.updateSetting('variant', variantId);
+    }
+    this.gameController.newGame();
+  }
+
   // 되돌리기 처리
   private handleUndo(): void {
     if (this.gameController.gameState.canUndo()) {
@@ -89,6 +190,16 @@ export class MenuUI {
     }
   }
 
+  // 다시 실행 처리
+  private handleRedo(): void {
+    if (this.gameController.gameState.canRedo()) {
+      this.gameController.redoLastMove();
+      if (this.buttons.redo) {
+        this.animateButton(this.buttons.redo);
+      }
+    }
+  }
+
   // 힌트 처리
   private handleHint(): void {
     if (this.gameController.gameState.isPlaying()) {
@@ -110,7 +221,15 @@ export class MenuUI {
           break;
         case 'z':
           event.preventDefault();
-          this.handleUndo();
+          if (event.shiftKey) {
+            this.handleRedo();
+          } else {
+            this.handleUndo();
+          }
+          break;
+        case 'y':
+          event.preventDefault();
+          this.handleRedo();
           break;
         case 'h':
           event.preventDefault();
@@ -144,6 +263,11 @@ export class MenuUI {
       this.buttons.undo.disabled = !gameState.canUndo();
     }
 
+    // 다시 실행 버튼
+    if (this.buttons.redo) {
+      this.buttons.redo.disabled = !gameState.canRedo();
+    }
+
     // 힌트 버튼
     if (this.buttons.hint) {
       this.buttons.hint.disabled =
@@ -185,10 +309,14 @@ export class MenuUI {
 
     const menuItems = [
       { text: '통계 보기', action: () => this.showStats() },
+      { text: '업적', action: () => this.gameController.showAchievements() },
+      { text: '이동 기록', action: () => this.gameController.showHistoryPanel() },
       { text: '설정', action: () => this.showSettings() },
       { text: '게임 규칙', action: () => this.showRules() },
+      { text: '딜 번호로 플레이', action: () => this.playDealNumber() },
       { text: '자동 완성', action: () => this.autoComplete() },
-      { text: '게임 재시작', action: () => this.restartGame() },
+      { text: '이 딜 다시 하기', action: () => this.restartGame() },
+      { text: '게임 포기', action: () => this.concedeGame() },
     ];
 
     menuItems.forEach((item) => {
@@ -264,8 +392,7 @@ export class MenuUI {
 
   // 통계 표시
   private showStats(): void {
-    // ScoreUI의 showStatsModal 호출은 별도 구현 필요
-    console.log('통계 표시 기능');
+    this.gameController.showStats();
   }
 
   // 설정 모달 표시
@@ -277,12 +404,52 @@ export class MenuUI {
             <h2 style="color: #2c3e50; margin-bottom: 20px;">⚙️ 게임 설정</h2>
             <div style="color: #34495e;">
                 <div style="margin-bottom: 15px;">
-                    <label style="display: block; margin-bottom: 5px;">카드 뽑기 개수:</label>
+                    <label style="display: block; margin-bottom: 5px;">순위표 이름:</label>
+                    <input type="text" id="playerName" maxlength="20" style="width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px; box-sizing: border-box;">
+                </div>
+                <div style="margin-bottom: 15px;">
+                    <label style="display: block; margin-bottom: 5px;">카드 뽑기 개수 (다음 게임부터 적용):</label>
                     <select id="drawCount" style="width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px;">
                         <option value="1" ${settings.drawCount === 1 ? 'selected' : ''}>1장</option>
                         <option value="3" ${settings.drawCount === 3 ? 'selected' : ''}>3장</option>
                     </select>
                 </div>
+                <div style="margin-bottom: 15px;">
+                    <label style="display: block; margin-bottom: 5px;">Stock 넘기기 횟수 (베가스 점수는 규칙대로, 다음 게임부터 적용):</label>
+                    <select id="maxStockPasses" style="width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px;">
+                        <option value="unlimited" ${settings.maxStockPasses === null ? 'selected' : ''}>제한 없음</option>
+                        <option value="1" ${settings.maxStockPasses === 1 ? 'selected' : ''}>1번</option>
+                        <option value="3" ${settings.maxStockPasses === 3 ? 'selected' : ''}>3번</option>
+                    </select>
+                </div>
+                <div style="margin-bottom: 15px;">
+                    <label style="display: block; margin-bottom: 5px;">스파이더 무늬 수 (다음 게임부터 적용):</label>
+                    <select id="spiderSuits" style="width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px;">
+                        <option value="1" ${settings.spiderSuits === 1 ? 'selected' : ''}>1무늬 (쉬움)</option>
+                        <option value="2" ${settings.spiderSuits === 2 ? 'selected' : ''}>2무늬 (보통)</option>
+                        <option value="4" ${settings.spiderSuits === 4 ? 'selected' : ''}>4무늬 (어려움)</option>
+                    </select>
+                </div>
+                <div style="margin-bottom: 15px;">
+                    <label style="display: block; margin-bottom: 5px;">점수 방식 (다음 게임부터 적용):</label>
+                    <select id="scoringMode" style="width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px;">
+                        <option value="standard" ${settings.scoringMode === 'standard' ? 'selected' : ''}>표준 (이동별 점수)</option>
+                        <option value="vegas" ${settings.scoringMode === 'vegas' ? 'selected' : ''}>베가스 (판돈 $52, 카드당 $5)</option>
+                        <option value="legacy" ${settings.scoringMode === 'legacy' ? 'selected' : ''}>기존 계산식</option>
+                    </select>
+                </div>
+                <div style="margin-bottom: 15px;">
+                    <label style="display: flex; align-items: center;">
+                        <input type="checkbox" id="vegasCumulative" ${settings.vegasCumulative ? 'checked' : ''} style="margin-right: 8px;">
+                        베가스 잔고 누적 (게임 사이에 이어가기)
+                    </label>
+                </div>
+                <div style="margin-bottom: 15px;">
+                    <label style="display: flex; align-items: center;">
+                        <input type="checkbox" id="thoughtful" ${settings.thoughtful ? 'checked' : ''} style="margin-right: 8px;">
+                        모두 공개 (모든 카드를 앞면으로 딜, 다음 게임부터 적용)
+                    </label>
+                </div>
                 <div style="margin-bottom: 15px;">
                     <label style="display: flex; align-items: center;">
                         <input type="checkbox" id="allowUndo" ${settings.allowUndo ? 'checked' : ''} style="margin-right: 8px;">
@@ -332,6 +499,11 @@ export class MenuUI {
 
     document.body.appendChild(modal);
 
+    const playerNameInput = document.getElementById('playerName') as HTMLInputElement | null;
+    if (playerNameInput) {
+      playerNameInput.value = settings.playerName;
+    }
+
     // 저장 버튼
     const saveButton = document.getElementById('saveSettings');
     if (saveButton) {
@@ -360,14 +532,44 @@ export class MenuUI {
   // 설정 저장
   private saveSettings(): void {
     const drawCountSelect = document.getElementById('drawCount') as HTMLSelectElement;
+    const maxStockPassesSelect = document.getElementById('maxStockPasses') as HTMLSelectElement;
+    const spiderSuitsSelect = document.getElementById('spiderSuits') as HTMLSelectElement;
+    const scoringModeSelect = document.getElementById('scoringMode') as HTMLSelectElement;
+    const vegasCumulativeCheckbox = document.getElementById('vegasCumulative') as HTMLInputElement;
+    const thoughtfulCheckbox = document.getElementById('thoughtful') as HTMLInputElement;
     const allowUndoCheckbox = document.getElementById('allowUndo') as HTMLInputElement;
     const showTimerCheckbox = document.getElementById('showTimer') as HTMLInputElement;
     const autoCompleteCheckbox = document.getElementById('autoComplete') as HTMLInputElement;
     const hintEnabledCheckbox = document.getElementById('hintEnabled') as HTMLInputElement;
+    const playerNameInput = document.getElementById('playerName') as HTMLInputElement;
 
     if (drawCountSelect) {
       this.gameController.gameState.updateSetting('drawCount', parseInt(drawCountSelect.value) as 1 | 3);
     }
+    if (maxStockPassesSelect) {
+      this.gameController.gameState.updateSetting(
+        'maxStockPasses',
+        maxStockPassesSelect.value === 'unlimited' ? null : parseInt(maxStockPassesSelect.value)
+      );
+    }
+    if (spiderSuitsSelect) {
+      this.gameController.gameState.updateSetting('spiderSuits', parseInt(spiderSuitsSelect.value));
+    }
+    if (scoringModeSelect) {
+      this.gameController.gameState.updateSetting(
+        'scoringMode',
+        scoringModeSelect.value as ScoringMode
+      );
+    }
+    if (vegasCumulativeCheckbox) {
+      this.gameController.gameState.updateSetting(
+        'vegasCumulative',
+        vegasCumulativeCheckbox.checked
+      );
+    }
+    if (thoughtfulCheckbox) {
+      this.gameController.gameState.updateSetting('thoughtful', thoughtfulCheckbox.checked);
+    }
     if (allowUndoCheckbox) {
       this.gameController.gameState.updateSetting('allowUndo', allowUndoCheckbox.checked);
     }
@@ -380,6 +582,9 @@ export class MenuUI {
     if (hintEnabledCheckbox) {
       this.gameController.gameState.updateSetting('hintEnabled', hintEnabledCheckbox.checked);
     }
+    if (playerNameInput && playerNameInput.value.trim()) {
+      this.gameController.gameState.updateSetting('playerName', playerNameInput.value.trim());
+    }
 
     this.updateButtonStates();
     console.log('설정이 저장되었습니다.');
@@ -419,6 +624,7 @@ export class MenuUI {
                 <ul>
                     <li><strong>Ctrl+N:</strong> 새 게임</li>
                     <li><strong>Ctrl+Z:</strong> 되돌리기</li>
+                    <li><strong>Ctrl+Y 또는 Ctrl+Shift+Z:</strong> 다시 실행</li>
                     <li><strong>Ctrl+H 또는 F1:</strong> 힌트</li>
                     <li><strong>ESC:</strong> 일시정지</li>
                 </ul>
@@ -497,13 +703,46 @@ export class MenuUI {
     }
   }
 
+  // 딜 번호를 입력받아 해당 딜로 새 게임 시작
+  private playDealNumber(): void {
+    const maxDealNumber =
+      VariantRegistry.get(this.gameController.gameState.settings.variant).maxDealNumber ??
+      CONSTANTS.GAME.MAX_DEAL_NUMBER;
+    const input = prompt(`플레이할 딜 번호를 입력하세요 (1-${maxDealNumber})`);
+    if (input === null) return;
+
+    const dealNumber = Number(input.trim().replace(/^#/, ''));
+    if (!Utils.isValidDealNumber(dealNumber, maxDealNumber)) {
+      alert('올바른 딜 번호가 아닙니다.');
+      return;
+    }
+
+    if (
+      this.gameController.gameState.isPlaying() &&
+      !confirm(`진행 중인 게임을 끝내고 딜 #${dealNumber}을 시작하시겠습니까?`)
+    ) {
+      return;
+    }
+
+    this.gameController.newGame(dealNumber);
+  }
+
   // 게임 재시작
   private restartGame(): void {
-    if (confirm('현재 게임을 재시작하시겠습니까?')) {
+    if (confirm('같은 딜을 처음부터 다시 시작하시겠습니까?')) {
       this.gameController.restartGame();
     }
   }
 
+  // 게임 포기
+  private concedeGame(): void {
+    if (!this.gameController.gameState.isPlaying()) return;
+
+    if (confirm('이 게임을 포기하시겠습니까? 패배로 기록되고 새 게임이 시작됩니다.')) {
+      this.gameController.concedeGame();
+    }
+  }
+
   // 메뉴 버튼 추가 (필요시)
   public addMenuButton(): void {
     const menuButton = document.createElement('button');
@@ -524,6 +763,8 @@ export class MenuUI {
     const tooltips: Record<string, string> = {
       newGameBtn: '새 게임 시작 (Ctrl+N)',
       undoBtn: '마지막 이동 되돌리기 (Ctrl+Z)',
+      redoBtn: '되돌린 이동 다시 실행 (Ctrl+Y)',
+      historyBtn: '이동 기록 보기',
       hintBtn: '다음 이동 힌트 (Ctrl+H)',
     };
 
@@ -540,8 +781,8 @@ export class MenuUI {
     this.addTooltips();
     this.updateButtonStates();
 
-    // 메뉴 버튼 추가 (선택사항)
-    // this.addMenuButton();
+    // 메뉴 버튼 추가 (딜 번호 플레이 등 확장 메뉴용)
+    this.addMenuButton();
   }
 
   // 메모리 정리
@@ -554,7 +795,7 @@ export class MenuUI {
     this.hideExtendedMenu();
 
     // 모든 모달 제거
-    document.querySelectorAll('.settings-modal, .rules-modal').forEach((modal) => {
+    document.querySelectorAll('.settings-modal, .rules-modal, .variant-modal').forEach((modal) => {
       modal.remove();
     });
 
@@ -562,7 +803,9 @@ export class MenuUI {
     this.buttons = {
       newGame: null,
       undo: null,
+      redo: null,
       hint: null,
+      history: null,
     };
   }
 }
\ No newline at end of file
@@ -1,22 +1,52 @@
 // PixiJS 솔리테어 - 점수 UI 관리 (TypeScript)
 
 import { Utils } from "@/utils/Utils";
-import type { GameState, GameInfo, DetailedStats } from "@/game/GameState";
+import { GameState } from "@/game/GameState";
+import type { GameInfo, DetailedStats, StatRecord } from "@/game/GameState";
 import type { UIAnimation } from "@/utils/UIAnimation";
+import { StatsCharts } from "@/UI/StatsCharts";
+import { LeaderboardUI } from "@/UI/LeaderboardUI";
+import type { ArchiveUI } from "@/UI/ArchiveUI";
 import type { GameStateEventDetail } from "@/types/global";
+import { CardIds, type CardId } from "@/engine/CardIds";
 
 export interface UIElements {
   score: HTMLElement | null;
   timer: HTMLElement | null;
+  dealNumber: HTMLElement | null;
+  bankrollInfo: HTMLElement | null;
+  bankroll: HTMLElement | null;
+  matchInfo: HTMLElement | null;
+  matchRound: HTMLElement | null;
+  stockPreviewInfo: HTMLElement | null;
+  stockPreview: HTMLElement | null;
   gameInfo: HTMLElement | null;
 }
 
+// 경기 진행 표시 (골프 9홀)
+export interface MatchInfo {
+  round: number;
+  totalRounds: number;
+  score: number; // 이번 판의 현재 점수
+  total: number; // 기록된 판들의 합계
+}
+
+// 막힌 게임 대화상자의 선택지
+export interface GameOverActions {
+  canUndo: boolean;
+  onUndo: () => void;
+  onRestart: () => void;
+  onNewGame: () => void;
+}
+
 export class ScoreUI {
   private gameState: GameState;
   private uiAnimation: UIAnimation | null;
   private elements: UIElements;
   private timerInterval: number | null = null;
   private lastScore: number = 0;
+  private archiveUI: ArchiveUI | null = null;
+  private leaderboardUI: LeaderboardUI | null = null;
 
   constructor(gameState: GameState, uiAnimation: UIAnimation | null = null) {
     this.gameState = gameState;
@@ -27,10 +57,27 @@ export class ScoreUI {
     this.startTimer();
   }
 
+  // 통계 창에서 지난 게임 기록을 열 수 있도록 연결
+  public setArchiveUI(archiveUI: ArchiveUI): void {
+    this.archiveUI = archiveUI;
+  }
+
+  // 통계 창과 게임 완료 창에서 순위표를 열 수 있도록 연결
+  public setLeaderboardUI(leaderboardUI: LeaderboardUI): void {
+    this.leaderboardUI = leaderboardUI;
+  }
+
   private getUIElements(): UIElements {
     return {
       score: Utils.getElementById("score"),
       timer: Utils.getElementById("timer"),
+      dealNumber: Utils.getElementById("dealNumber"),
+      bankrollInfo: Utils.getElementById("bankrollInfo"),
+      bankroll: Utils.getElementById("bankroll"),
+      matchInfo: Utils.getElementById("matchInfo"),
+      matchRound: Utils.getElementById("matchRound"),
+      stockPreviewInfo: Utils.getElementById("stockPreviewInfo"),
+      stockPreview: Utils.getElementById("stockPreview"),
       gameInfo: Utils.getElementById("gameInfo"),
     };
   }
@@ -104,6 +151,67 @@ export class ScoreUI {
     }
   }
 
+  // 딜 번호 업데이트
+  public updateDealNumber(): void {
+    if (this.elements.dealNumber) {
+      const seed = this.gameState.dealSeed;
+      this.elements.dealNumber.textContent = seed !== null ? `#${seed}` : "-";
+    }
+  }
+
+  // 베가스 잔고 업데이트 (베가스 점수 게임에서만 표시)
+  public updateBankroll(): void {
+    const isVegas = this.gameState.scoringMode === "vegas";
+    if (this.elements.bankrollInfo) {
+      this.elements.bankrollInfo.style.display = isVegas ? "block" : "none";
+    }
+    if (this.elements.bankroll && isVegas) {
+      const balance = this.gameState.getBankrollBalance();
+      this.elements.bankroll.textContent = Utils.formatMoney(balance);
+      this.elements.bankroll.style.color = balance < 0 ? "#ff6b6b" : "white";
+    }
+  }
+
+  // 경기 진행 업데이트 (경기로 치르는 게임 종류에서만 표시)
+  public updateMatchInfo(info: MatchInfo | null): void {
+    if (this.elements.matchInfo) {
+      this.elements.matchInfo.style.display = info ? "block" : "none";
+    }
+    if (!this.elements.matchRound || !info) return;
+
+    this.elements.matchRound.textContent = `${info.round}/${info.totalRounds}홀 · 이번 홀 ${info.score} · 합계 ${info.total}`;
+  }
+
+  // Stock 카드 순서 업데이트 (모두 공개 모드에서만 표시)
+  // 다음에 뽑을 카드부터 한 번에 뽑는 묶음별로 나누고, 묶음에서 Waste 맨 위에
+  // 올라가지 않는 카드는 흐리게 표시
+  public updateStockPreview(stock: CardId[], drawCount: number): void {
+    const isThoughtful = this.gameState.isThoughtful;
+    if (this.elements.stockPreviewInfo) {
+      this.elements.stockPreviewInfo.style.display = isThoughtful
+        ? "block"
+        : "none";
+    }
+    if (!this.elements.stockPreview || !isThoughtful) return;
+
+    const groups = Utils.chunk([...stock].reverse(), drawCount);
+    this.elements.stockPreview.innerHTML =
+      groups.length === 0
+        ? "비어 있음"
+        : groups
+            .map((group) =>
+              group
+                .map(
+                  (id, index) => `<span style="
+                      color: ${CardIds.isRed(id) ? "#ff8a80" : "white"};
+                      opacity: ${index === group.length - 1 ? 1 : 0.5};
+                  ">${CardIds.toLabel(id)}</span>`
+                )
+                .join(" ")
+            )
+            .join(" · ");
+  }
+
   // 게임 정보 업데이트
   public updateGameInfo(): void {
     if (!this.elements.gameInfo) return;
@@ -127,6 +235,8 @@ export class ScoreUI {
   public updateAll(): void {
     this.updateScore();
     this.updateTimer();
+    this.updateDealNumber();
+    this.updateBankroll();
     this.updateGameInfo();
   }
 
@@ -154,6 +264,11 @@ export class ScoreUI {
 
     // 점수 하이라이트
     this.highlightFinalScore();
+
+    // 경신한 기록 알림
+    this.gameState.getNewRecords().forEach((record, index) => {
+      this.showRecord(record, index);
+    });
   }
 
   // 게임 완료 모달 생성
@@ -198,10 +313,30 @@ export class ScoreUI {
                   info.time
                 )}</strong></div>
                 <div>이동 횟수: <strong>${info.moves}</strong></div>
+                ${
+                  this.gameState.dealSeed !== null
+                    ? `<div>딜 번호: <strong>#${this.gameState.dealSeed}</strong></div>`
+                    : ""
+                }
+                ${
+                  this.gameState.scoringMode === "vegas"
+                    ? `<div>잔고: <strong>${Utils.formatMoney(
+                        this.gameState.getBankrollBalance()
+                      )}</strong></div>`
+                    : ""
+                }
             </div>
+            ${this.createRecordBadges()}
+            ${this.createPlacementBadges()}
             <div style="color: #7f8c8d; font-size: 14px; margin-bottom: 20px;">
+                <div>${GameState.describeRuleKey(
+                  this.gameState.ruleKey
+                )} 기준</div>
                 <div>승률: ${stats.winRate}%</div>
                 <div>최고 점수: ${stats.bestScore.toLocaleString()}</div>
+                <div>현재 연승: ${stats.currentWinStreak} · 최장 연승: ${
+                  stats.longestWinStreak
+                }</div>
             </div>
             <div style="display: flex; gap: 10px; justify-content: center;">
                 <button id="newGameFromModal" style="
@@ -240,6 +375,7 @@ export class ScoreUI {
     // 버튼 이벤트 리스너
     const newGameBtn = document.getElementById("newGameFromModal");
     const showStatsBtn = document.getElementById("showStats");
+    const leaderboardBtn = document.getElementById("showLeaderboardFromModal");
     const closeBtn = document.getElementById("closeModal");
 
     if (newGameBtn) {
@@ -256,6 +392,13 @@ export class ScoreUI {
       });
     }
 
+    if (leaderboardBtn) {
+      leaderboardBtn.addEventListener("click", () => {
+        modal.remove();
+        this.leaderboardUI?.show();
+      });
+    }
+
     if (closeBtn) {
       closeBtn.addEventListener("click", () => {
         modal.remove();
@@ -280,6 +423,164 @@ export class ScoreUI {
     }, 100);
   }
 
+  // 더 이상 진행할 수 없는 게임 대화상자 표시
+  public showGameOver(actions: GameOverActions): void {
+    this.hideGameOver();
+
+    const info = this.gameState.getGameInfo();
+
+    const modal = document.createElement("div");
+    modal.className = "game-over-modal";
+    modal.style.cssText = `
+            position: fixed;
+            top: 0;
+            left: 0;
+            width: 100%;
+            height: 100%;
+            background: rgba(0, 0, 0, 0.8);
+            display: flex;
+            justify-content: center;
+            align-items: center;
+            z-index: 1000;
+        `;
+
+    const modalContent = document.createElement("div");
+    modalContent.style.cssText = `
+            background: white;
+            border-radius: 12px;
+            padding: 30px;
+            text-align: center;
+            box-shadow: 0 10px 30px rgba(0, 0, 0, 0.5);
+            max-width: 420px;
+            width: 90%;
+        `;
+
+    modalContent.innerHTML = `
+            <h2 style="color: #2c3e50; margin-bottom: 15px;">😢 더 이상 이길 수 있는 수가 없어요</h2>
+            <div style="color: #7f8c8d; font-size: 14px; margin-bottom: 20px;">
+                카드 뭉치를 계속 넘겨도 옮길 수 있는 카드가 없습니다.
+            </div>
+            <div style="color: #34495e; font-size: 16px; margin-bottom: 20px;">
+                <div>정리한 카드: <strong>${info.foundationCards} / 52</strong></div>
+                <div>소요 시간: <strong>${Utils.formatTime(info.time)}</strong></div>
+                <div>이동 횟수: <strong>${info.moves}</strong></div>
+            </div>
+            <div style="display: flex; gap: 10px; justify-content: center; flex-wrap: wrap;">
+                <button id="gameOverUndo" style="
+                    background: #f39c12;
+                    color: white;
+                    border: none;
+                    padding: 10px 20px;
+                    border-radius: 6px;
+                    cursor: pointer;
+                    font-weight: bold;
+                " ${actions.canUndo ? "" : "disabled"}>되돌릴 수 있는 곳으로</button>
+                <button id="gameOverRestart" style="
+                    background: #27ae60;
+                    color: white;
+                    border: none;
+                    padding: 10px 20px;
+                    border-radius: 6px;
+                    cursor: pointer;
+                    font-weight: bold;
+                ">이 딜 다시 하기</button>
+                <button id="gameOverNewGame" style="
+                    background: #3498db;
+                    color: white;
+                    border: none;
+                    padding: 10px 20px;
+                    border-radius: 6px;
+                    cursor: pointer;
+                    font-weight: bold;
+                ">새 게임</button>
+            </div>
+        `;
+
+    modal.appendChild(modalContent);
+    document.body.appendChild(modal);
+
+    // 버튼 이벤트 리스너
+    const bindAction = (id: string, action: () => void) => {
+      const button = document.getElementById(id);
+      if (button) {
+        button.addEventListener("click", () => {
+          modal.remove();
+          action();
+        });
+      }
+    };
+
+    bindAction("gameOverUndo", actions.onUndo);
+    bindAction("gameOverRestart", actions.onRestart);
+    bindAction("gameOverNewGame", actions.onNewGame);
+
+    // 모달 애니메이션
+    modalContent.style.transform = "scale(0.8)";
+    modalContent.style.opacity = "0";
+
+    setTimeout(() => {
+      modalContent.style.transition = "all 0.3s ease";
+      modalContent.style.transform = "scale(1)";
+      modalContent.style.opacity = "1";
+    }, 100);
+  }
+
+  public hideGameOver(): void {
+    const existingModal = document.querySelector(".game-over-modal");
+    if (existingModal) {
+      existingModal.remove();
+    }
+  }
+
+  // 이번 게임에서 경신한 기록 표시
+  private createRecordBadges(): string {
+    const records = this.gameState.getNewRecords();
+    if (records.length === 0) return "";
+
+    const labels: Record<StatRecord, string> = {
+      bestScore: "최고 점수",
+      bestTime: "최단 시간",
+      longestWinStreak: `최장 연승 (${this.gameState.stats.longestWinStreak}연승)`,
+    };
+
+    return `
+            <div style="background: #fef9e7; border: 2px solid #f1c40f; border-radius: 8px; padding: 10px; margin-bottom: 20px; color: #b9770e; font-weight: bold;">
+                ${records.map((record) => `<div>🏆 새 기록: ${labels[record]}</div>`).join("")}
+            </div>
+        `;
+  }
+
+  // 이번 승리로 들어간 순위표 순위 표시
+  private createPlacementBadges(): string {
+    const placements = this.gameState.getPlacements();
+    if (placements.length === 0) return "";
+
+    const scopeLabels = { overall: "전체", deal: "이 딜" };
+
+    return `
+            <div style="background: #eaf2f8; border: 2px solid #3498db; border-radius: 8px; padding: 10px; margin-bottom: 20px; color: #1f618d;">
+                ${placements
+                  .map(
+                    (placement) =>
+                      `<div>🏅 ${
+                        LeaderboardUI.CATEGORY_LABELS[placement.category]
+                      } 순위 <strong>#${placement.rank}</strong> (${
+                        scopeLabels[placement.scope]
+                      })</div>`
+                  )
+                  .join("")}
+                <button id="showLeaderboardFromModal" style="
+                    background: none;
+                    border: none;
+                    color: #3498db;
+                    cursor: pointer;
+                    font-weight: bold;
+                    margin-top: 5px;
+                ">순위표 보기 →</button>
+            </div>
+        `;
+  }
+
   // 최종 점수 하이라이트
   private highlightFinalScore(): void {
     if (!this.elements.score) return;
@@ -308,9 +609,47 @@ export class ScoreUI {
     highlight();
   }
 
-  // 통계 모달 표시
-  public showStatsModal(): void {
-    const stats = this.gameState.getDetailedStats();
+  // 베가스 잔고 요약 (통계 창에서 베가스 규칙을 골랐을 때)
+  private createBankrollSection(): string {
+    const history = this.gameState.bankroll.getHistory();
+    const total = history.reduce((sum, entry) => sum + entry.amount, 0);
+    const best = history.length
+      ? Math.max(...history.map((entry) => entry.amount))
+      : 0;
+
+    return `
+                <div style="margin-bottom: 20px;">
+                    <h3 style="margin-bottom: 10px;">💵 베가스 잔고</h3>
+                    <div style="background: #f8f9fa; padding: 15px; border-radius: 8px;">
+                        <div>누적 잔고: <strong>${Utils.formatMoney(
+                          this.gameState.bankroll.getBalance()
+                        )}</strong>${
+                          this.gameState.settings.vegasCumulative
+                            ? ""
+                            : " (누적 꺼짐)"
+                        }</div>
+                        <div>정산한 게임: <strong>${history.length}</strong></div>
+                        <div>총 손익: <strong>${Utils.formatMoney(
+                          total
+                        )}</strong></div>
+                        <div>최고 손익: <strong>${Utils.formatMoney(
+                          best
+                        )}</strong></div>
+                    </div>
+                </div>
+            `;
+  }
+
+  // 통계 모달 표시 (규칙 구성별, 기본은 현재 게임의 규칙)
+  public showStatsModal(ruleKey: string = this.gameState.ruleKey): void {
+    const stats = this.gameState.getDetailedStats(ruleKey);
+    const ruleKeys = [
+      ...new Set([
+        GameState.ALL_RULES,
+        ...this.gameState.getStatsRuleKeys(),
+        ruleKey,
+      ]),
+    ];
 
     const modal = document.createElement("div");
     modal.className = "stats-modal";
@@ -340,6 +679,16 @@ export class ScoreUI {
 
     modalContent.innerHTML = `
             <h2 style="color: #2c3e50; margin-bottom: 20px; text-align: center;">📊 게임 통계</h2>
+            <select id="statsRule" style="width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px; margin-bottom: 20px;">
+                ${ruleKeys
+                  .map(
+                    (key) =>
+                      `<option value="${key}" ${
+                        key === ruleKey ? "selected" : ""
+                      }>${GameState.describeRuleKey(key)}</option>`
+                  )
+                  .join("")}
+            </select>
             <div style="color: #34495e;">
                 <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 20px; margin-bottom: 20px;">
                     <div style="text-align: center; padding: 15px; background: #ecf0f1; border-radius: 8px;">
@@ -366,6 +715,26 @@ export class ScoreUI {
                     </div>
                 </div>
                 
+                <div style="margin-bottom: 20px;">
+                    <h3 style="margin-bottom: 10px;">🏁 게임 결과</h3>
+                    <div style="background: #f8f9fa; padding: 15px; border-radius: 8px;">
+                        <div>승리: <strong>${stats.gamesWon}</strong></div>
+                        <div>패배 (막힘, 포기): <strong>${stats.gamesLost}</strong></div>
+                        <div>중단 (끝내지 않은 게임): <strong>${
+                          stats.gamesAbandoned
+                        }</strong></div>
+                    </div>
+                </div>
+
+                <div style="margin-bottom: 20px;">
+                    <h3 style="margin-bottom: 10px;">🔥 연속 기록</h3>
+                    <div style="background: #f8f9fa; padding: 15px; border-radius: 8px;">
+                        <div>현재 연승: <strong>${stats.currentWinStreak}</strong></div>
+                        <div>최장 연승: <strong>${stats.longestWinStreak}</strong></div>
+                        <div>최장 연패: <strong>${stats.longestLossStreak}</strong></div>
+                    </div>
+                </div>
+
                 <div style="margin-bottom: 20px;">
                     <h3 style="margin-bottom: 10px;">⏱️ 시간 기록</h3>
                     <div style="background: #f8f9fa; padding: 15px; border-radius: 8px;">
@@ -385,6 +754,17 @@ export class ScoreUI {
                     </div>
                 </div>
                 
+                ${
+                  GameState.isVegasRule(ruleKey)
+                    ? this.createBankrollSection()
+                    : ""
+                }
+
+                <div style="margin-bottom: 20px;">
+                    <h3 style="margin-bottom: 10px;">📈 차트</h3>
+                    <div id="statsCharts"></div>
+                </div>
+
                 <div style="margin-bottom: 20px;">
                     <h3 style="margin-bottom: 10px;">🎯 게임 동작</h3>
                     <div style="background: #f8f9fa; padding: 15px; border-radius: 8px;">
@@ -398,7 +778,25 @@ export class ScoreUI {
                 </div>
             </div>
             
-            <div style="display: flex; gap: 10px; justify-content: center; margin-top: 20px;">
+            <div style="display: flex; flex-wrap: wrap; gap: 10px; justify-content: center; margin-top: 20px;">
+                <button id="showArchive" style="
+                    background: #3498db;
+                    color: white;
+                    border: none;
+                    padding: 10px 20px;
+                    border-radius: 6px;
+                    cursor: pointer;
+                    font-weight: bold;
+                ">📜 지난 게임</button>
+                <button id="showLeaderboard" style="
+                    background: #f39c12;
+                    color: white;
+                    border: none;
+                    padding: 10px 20px;
+                    border-radius: 6px;
+                    cursor: pointer;
+                    font-weight: bold;
+                ">🏆 순위표</button>
                 <button id="resetStats" style="
                     background: #e74c3c;
                     color: white;
@@ -423,10 +821,54 @@ export class ScoreUI {
     modal.appendChild(modalContent);
     document.body.appendChild(modal);
 
+    // 선택한 규칙 구성의 게임 기록으로 차트 그리기
+    const chartContainer = document.getElementById("statsCharts");
+    if (chartContainer) {
+      const records = this.gameState.archive
+        .getRecords()
+        .filter(
+          (record) =>
+            ruleKey === GameState.ALL_RULES || record.ruleKey === ruleKey
+        );
+      const bankroll = GameState.isVegasRule(ruleKey)
+        ? this.gameState.bankroll.getHistory()
+        : [];
+      new StatsCharts(records, bankroll).render(chartContainer);
+    }
+
+    // 규칙 구성을 바꾸면 해당 통계로 다시 그림
+    const ruleSelect = document.getElementById(
+      "statsRule"
+    ) as HTMLSelectElement | null;
+    if (ruleSelect) {
+      ruleSelect.addEventListener("change", () => {
+        modal.remove();
+        this.showStatsModal(ruleSelect.value);
+      });
+    }
+
     // 버튼 이벤트
+    const archiveBtn = document.getElementById("showArchive");
+    const leaderboardBtn = document.getElementById("showLeaderboard");
     const resetBtn = document.getElementById("resetStats");
     const closeBtn = document.getElementById("closeStats");
 
+    if (archiveBtn) {
+      archiveBtn.addEventListener("click", () => {
+        modal.remove();
+        this.archiveUI?.show();
+      });
+    }
+
+    if (leaderboardBtn) {
+      leaderboardBtn.addEventListener("click", () => {
+        modal.remove();
+        this.leaderboardUI?.show(
+          ruleKey === GameState.ALL_RULES ? {} : { ruleKey }
+        );
+      });
+    }
+
     if (resetBtn) {
       resetBtn.addEventListener("click", () => {
         if (confirm("정말로 모든 통계를 초기화하시겠습니까?")) {
@@ -452,16 +894,7 @@ export class ScoreUI {
 
   // 통계 초기화
   private resetStats(): void {
-    this.gameState.stats = {
-      gamesPlayed: 0,
-      gamesWon: 0,
-      totalTime: 0,
-      totalMoves: 0,
-      bestTime: null,
-      bestScore: 0,
-    };
-
-    this.gameState.saveStats();
+    this.gameState.resetStats();
     this.updateAll();
     console.log("통계가 초기화되었습니다.");
   }
@@ -512,6 +945,7 @@ export class ScoreUI {
               foundationCards: 0,
               progress: 0,
               canUndo: false,
+              canRedo: false,
             },
           })
         );
@@ -579,17 +1013,18 @@ export class ScoreUI {
   }
 
   // 기록 달성 알림
-  public showRecord(type: "bestScore" | "bestTime"): void {
-    const messages = {
+  public showRecord(type: StatRecord, index: number = 0): void {
+    const messages: Record<StatRecord, string> = {
       bestScore: "🎉 새로운 최고 점수 달성!",
       bestTime: "⚡ 새로운 최단 시간 기록!",
+      longestWinStreak: `🔥 최장 연승 기록 경신! (${this.gameState.stats.longestWinStreak}연승)`,
     };
 
     // 간단한 알림 표시
     const notification = document.createElement("div");
     notification.style.cssText = `
             position: fixed;
-            top: 20px;
+            top: ${20 + index * 60}px;
             right: 20px;
             background: #27ae60;
             color: white;
@@ -630,6 +1065,13 @@ export class ScoreUI {
     this.elements = {
       score: null,
       timer: null,
+      dealNumber: null,
+      bankrollInfo: null,
+      bankroll: null,
+      matchInfo: null,
+      matchRound: null,
+      stockPreviewInfo: null,
+      stockPreview: null,
       gameInfo: null,
     };
   }
@@ -0,0 +1,179 @@
+// PixiJS 솔리테어 - 승리 수순 패널 UI (TypeScript)
+
+import type { GameController } from "@/game/GameController";
+import { KlondikeEngine } from "@/engine/KlondikeEngine";
+import type {
+  EngineMove,
+  KlondikeState,
+  PileRef,
+} from "@/engine/KlondikeEngine";
+import { CardIds } from "@/engine/CardIds";
+
+export class SolutionUI {
+  private gameController: GameController;
+  private modal: HTMLDivElement | null = null;
+
+  constructor(gameController: GameController) {
+    this.gameController = gameController;
+
+    // 수를 둘 때마다 남은 수순으로 갱신
+    document.addEventListener("gameStateChanged", () => {
+      if (this.isOpen()) {
+        this.render();
+      }
+    });
+  }
+
+  public isOpen(): boolean {
+    return this.modal !== null && this.modal.isConnected;
+  }
+
+  // 승리 수순 패널 표시 (패널을 연 채로 수순을 따라 둘 수 있도록 판을 가리지 않음)
+  public show(): void {
+    this.hide();
+
+    const modal = document.createElement("div");
+    modal.className = "solution-modal";
+    modal.style.cssText = `
+            position: fixed;
+            top: 0;
+            right: 0;
+            height: 100%;
+            display: flex;
+            justify-content: flex-end;
+            align-items: stretch;
+            z-index: 1000;
+        `;
+
+    document.body.appendChild(modal);
+    this.modal = modal;
+    this.render();
+  }
+
+  public hide(): void {
+    if (this.modal) {
+      this.modal.remove();
+      this.modal = null;
+    }
+  }
+
+  // 패널 내용 그리기
+  private render(): void {
+    if (!this.modal) return;
+
+    const { start, moves } = this.gameController.getSolutionLine();
+
+    const panel = document.createElement("div");
+    panel.style.cssText = `
+            background: white;
+            width: 320px;
+            max-width: 90vw;
+            height: 100%;
+            padding: 20px;
+            overflow-y: auto;
+            box-shadow: -4px 0 20px rgba(0, 0, 0, 0.4);
+            color: #34495e;
+            font-size: 14px;
+        `;
+
+    panel.innerHTML = `
+            <h2 style="color: #2c3e50; margin-bottom: 10px;">🧭 승리 수순</h2>
+            <div style="color: #7f8c8d; font-size: 12px; margin-bottom: 15px;">
+                모든 카드가 공개되어 있어 이길 때까지의 전체 수순을 보여줍니다.
+                수를 두면 남은 수순이 갱신됩니다.
+            </div>
+        `;
+
+    const list = document.createElement("div");
+    if (moves.length === 0) {
+      list.innerHTML = `
+                <div style="color: #7f8c8d; text-align: center; padding: 20px 0;">
+                    찾아 둔 수순에서 벗어났어요.<br>힌트를 다시 눌러 새 수순을 찾아보세요.
+                </div>
+            `;
+    } else {
+      let state: KlondikeState | null = start;
+      moves.forEach((move, index) => {
+        if (!state) return;
+        list.appendChild(this.createMoveRow(state, move, index));
+        state = KlondikeEngine.applyMove(state, move);
+      });
+    }
+    panel.appendChild(list);
+
+    const closeButton = document.createElement("button");
+    closeButton.textContent = "닫기";
+    closeButton.style.cssText = `
+            background: #95a5a6;
+            color: white;
+            border: none;
+            padding: 10px 20px;
+            border-radius: 6px;
+            cursor: pointer;
+            font-weight: bold;
+            margin-top: 20px;
+            width: 100%;
+        `;
+    closeButton.addEventListener("click", () => this.hide());
+    panel.appendChild(closeButton);
+
+    this.modal.innerHTML = "";
+    this.modal.appendChild(panel);
+  }
+
+  private createMoveRow(
+    state: KlondikeState,
+    move: EngineMove,
+    index: number
+  ): HTMLDivElement {
+    const isNext = index === 0;
+    const row = document.createElement("div");
+    row.style.cssText = `
+            padding: 6px 10px;
+            border-radius: 4px;
+            background: ${isNext ? "#3498db" : "transparent"};
+            color: ${isNext ? "white" : "#34495e"};
+            font-weight: ${isNext ? "bold" : "normal"};
+        `;
+    row.textContent = `${index + 1}. ${this.describeMove(state, move)}`;
+    return row;
+  }
+
+  // 엔진 이동을 읽기 쉬운 문장으로 변환 (이동 전 배치 기준)
+  private describeMove(state: KlondikeState, move: EngineMove): string {
+    const name = (ref: PileRef): string => {
+      switch (ref.type) {
+        case "waste":
+          return "버린 카드";
+        case "foundation":
+          return "정리 영역";
+        case "tableau":
+          return `${ref.index + 1}번째 줄`;
+        default:
+          return "덱";
+      }
+    };
+
+    switch (move.type) {
+      case "draw": {
+        const drawn = state.stock.slice(-state.drawCount);
+        return `카드 뽑기 → ${CardIds.toLabel(drawn[0])}`;
+      }
+      case "recycle":
+        return "버린 카드 재활용";
+      case "flip":
+        return `${move.column + 1}번째 줄 뒤집기`;
+      case "move": {
+        const pile = KlondikeEngine.getPile(state, move.from) ?? [];
+        const card = CardIds.toLabel(pile[pile.length - move.count]);
+        const cards = move.count > 1 ? `${card} 외 ${move.count - 1}장` : card;
+        return `${cards}: ${name(move.from)} → ${name(move.to)}`;
+      }
+    }
+  }
+
+  // 메모리 정리
+  public destroy(): void {
+    this.hide();
+  }
+}
@@ -0,0 +1,326 @@
+// PixiJS 솔리테어 - 통계 차트 (canvas로 직접 그림)
+
+import { Utils } from "@/utils/Utils";
+import type {
+  BankrollEntry,
+  GameRecord,
+  GameResult,
+} from "@/types/global";
+
+// 차트에 찍을 한 점 (막대 차트는 색을 따로 지정 가능)
+interface ChartPoint {
+  label: string;
+  value: number;
+  color?: string;
+}
+
+interface ChartOptions {
+  title: string;
+  formatValue: (value: number) => string;
+  maxValue?: number;
+}
+
+export class StatsCharts {
+  // 승률 이동 평균에 쓰는 최근 게임 수
+  static readonly WIN_RATE_WINDOW = 10;
+  static readonly SCORE_BINS = 8;
+
+  private static readonly WIDTH = 440;
+  private static readonly HEIGHT = 150;
+  private static readonly PADDING = {
+    top: 12,
+    right: 12,
+    bottom: 22,
+    left: 44,
+  };
+
+  private static readonly LINE_COLOR = "#3498db";
+  private static readonly RESULT_COLORS: Record<GameResult, string> = {
+    won: "#27ae60",
+    lost: "#e74c3c",
+    abandoned: "#95a5a6",
+  };
+
+  private records: GameRecord[];
+  private bankroll: BankrollEntry[];
+
+  // 오래된 순서의 게임 기록 (베가스 규칙이면 잔고 기록도 함께)
+  constructor(records: GameRecord[], bankroll: BankrollEntry[] = []) {
+    this.records = [...records].sort((a, b) => a.finishedAt - b.finishedAt);
+    this.bankroll = [...bankroll].sort((a, b) => a.finishedAt - b.finishedAt);
+  }
+
+  // 컨테이너에 모든 차트 추가
+  public render(container: HTMLElement): void {
+    container.innerHTML = "";
+
+    if (this.records.length === 0) {
+      container.innerHTML = `
+                <div style="text-align: center; color: #95a5a6; padding: 15px 0;">
+                    차트를 그릴 게임 기록이 없습니다.
+                </div>
+            `;
+      return;
+    }
+
+    if (this.bankroll.length > 0) {
+      container.appendChild(this.createBankrollChart());
+    }
+    container.appendChild(this.createWinRateChart());
+    container.appendChild(this.createSolveTimeChart());
+    container.appendChild(this.createMovesChart());
+    container.appendChild(this.createScoreHistogram());
+  }
+
+  // 게임별 베가스 잔고 변화
+  private createBankrollChart(): HTMLElement {
+    const points = this.bankroll.map((entry, index) => ({
+      label: `${index + 1}`,
+      value: entry.balance,
+    }));
+
+    return this.createChart(points, "line", {
+      title: "베가스 잔고 (게임별)",
+      formatValue: (value) => Utils.formatMoney(Math.round(value)),
+    });
+  }
+
+  // 최근 N게임 기준 승률 변화
+  private createWinRateChart(): HTMLElement {
+    const windowSize = StatsCharts.WIN_RATE_WINDOW;
+    const points = this.records.map((record, index) => {
+      const recent = this.records.slice(
+        Math.max(0, index - windowSize + 1),
+        index + 1
+      );
+      const wins = recent.filter((game) => game.result === "won").length;
+      return { label: `${index + 1}`, value: (wins / recent.length) * 100 };
+    });
+
+    return this.createChart(points, "line", {
+      title: `승률 (최근 ${windowSize}게임 이동 평균)`,
+      formatValue: (value) => `${Math.round(value)}%`,
+      maxValue: 100,
+    });
+  }
+
+  // 승리한 게임의 완주 시간
+  private createSolveTimeChart(): HTMLElement {
+    const points = this.records
+      .filter((record) => record.result === "won")
+      .map((record, index) => ({ label: `${index + 1}`, value: record.time }));
+
+    return this.createChart(points, "line", {
+      title: "승리한 게임의 완주 시간",
+      formatValue: (value) => Utils.formatTime(Math.round(value)),
+    });
+  }
+
+  // 게임별 이동 횟수 (결과별 색)
+  private createMovesChart(): HTMLElement {
+    const points = this.records.map((record, index) => ({
+      label: `${index + 1}`,
+      value: record.moves,
+      color: StatsCharts.RESULT_COLORS[record.result],
+    }));
+
+    return this.createChart(points, "bar", {
+      title: "게임별 이동 횟수 (승리·패배·중단)",
+      formatValue: (value) => `${Math.round(value)}`,
+    });
+  }
+
+  // 점수 분포
+  private createScoreHistogram(): HTMLElement {
+    const scores = this.records.map((record) => record.score);
+    const min = Math.min(...scores);
+    const max = Math.max(...scores);
+    const binSize = Math.max(
+      1,
+      Math.ceil((max - min + 1) / StatsCharts.SCORE_BINS)
+    );
+
+    const counts = new Array<number>(StatsCharts.SCORE_BINS).fill(0);
+    scores.forEach((score) => {
+      counts[
+        Math.min(
+          StatsCharts.SCORE_BINS - 1,
+          Math.floor((score - min) / binSize)
+        )
+      ]++;
+    });
+
+    const points = counts.map((count, index) => ({
+      label: `${min + index * binSize}`,
+      value: count,
+    }));
+
+    return this.createChart(points, "bar", {
+      title: "점수 분포 (게임 수)",
+      formatValue: (value) => `${Math.round(value)}`,
+    });
+  }
+
+  // 제목과 canvas를 담은 차트 요소 생성
+  private createChart(
+    points: ChartPoint[],
+    type: "line" | "bar",
+    options: ChartOptions
+  ): HTMLElement {
+    const wrapper = document.createElement("div");
+    wrapper.style.cssText = `
+            margin-bottom: 15px;
+            padding: 10px;
+            background: #f8f9fa;
+            border-radius: 8px;
+        `;
+
+    const title = document.createElement("div");
+    title.textContent = options.title;
+    title.style.cssText =
+      "font-size: 13px; font-weight: bold; margin-bottom: 6px;";
+    wrapper.appendChild(title);
+
+    if (points.length === 0) {
+      const empty = document.createElement("div");
+      empty.textContent = "아직 데이터가 없습니다.";
+      empty.style.cssText = "color: #95a5a6; font-size: 12px;";
+      wrapper.appendChild(empty);
+      return wrapper;
+    }
+
+    const canvas = document.createElement("canvas");
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = StatsCharts.WIDTH * ratio;
+    canvas.height = StatsCharts.HEIGHT * ratio;
+    canvas.style.cssText = "width: 100%; height: auto; display: block;";
+    wrapper.appendChild(canvas);
+
+    const context = canvas.getContext("2d");
+    if (context) {
+      context.scale(ratio, ratio);
+      // 음수가 있으면(베가스 잔고) 세로축을 0 아래까지 늘림
+      const values = points.map((point) => point.value);
+      const minValue = Math.min(0, ...values);
+      const maxValue = options.maxValue ?? Math.max(minValue + 1, ...values);
+      this.drawAxes(context, minValue, maxValue, points, options);
+
+      if (type === "line") {
+        this.drawLine(context, points, minValue, maxValue);
+      } else {
+        this.drawBars(context, points, maxValue);
+      }
+    }
+
+    return wrapper;
+  }
+
+  // 축과 눈금 (세로축은 0, 중간, 최댓값)
+  private drawAxes(
+    context: CanvasRenderingContext2D,
+    minValue: number,
+    maxValue: number,
+    points: ChartPoint[],
+    options: ChartOptions
+  ): void {
+    const { top, right, bottom, left } = StatsCharts.PADDING;
+    const plotBottom = StatsCharts.HEIGHT - bottom;
+
+    context.strokeStyle = "#bdc3c7";
+    context.fillStyle = "#7f8c8d";
+    context.font = "10px sans-serif";
+    context.lineWidth = 1;
+
+    context.textAlign = "right";
+    context.textBaseline = "middle";
+    [0, 0.5, 1].forEach((fraction) => {
+      const y = plotBottom - fraction * (plotBottom - top);
+      context.beginPath();
+      context.moveTo(left, y);
+      context.lineTo(StatsCharts.WIDTH - right, y);
+      context.stroke();
+      context.fillText(
+        options.formatValue(minValue + (maxValue - minValue) * fraction),
+        left - 4,
+        y
+      );
+    });
+
+    // 가로축은 처음과 마지막 항목만 표시
+    context.textBaseline = "top";
+    context.textAlign = "left";
+    context.fillText(points[0].label, left, plotBottom + 4);
+    if (points.length > 1) {
+      context.textAlign = "right";
+      context.fillText(
+        points[points.length - 1].label,
+        StatsCharts.WIDTH - right,
+        plotBottom + 4
+      );
+    }
+  }
+
+  private drawLine(
+    context: CanvasRenderingContext2D,
+    points: ChartPoint[],
+    minValue: number,
+    maxValue: number
+  ): void {
+    const { top, right, bottom, left } = StatsCharts.PADDING;
+    const plotWidth = StatsCharts.WIDTH - left - right;
+    const plotHeight = StatsCharts.HEIGHT - top - bottom;
+    const step = points.length > 1 ? plotWidth / (points.length - 1) : 0;
+
+    const toX = (index: number) =>
+      left + (points.length > 1 ? index * step : plotWidth / 2);
+    const toY = (value: number) =>
+      top +
+      plotHeight -
+      ((value - minValue) / (maxValue - minValue)) * plotHeight;
+
+    context.strokeStyle = StatsCharts.LINE_COLOR;
+    context.lineWidth = 2;
+    context.beginPath();
+    points.forEach((point, index) => {
+      if (index === 0) {
+        context.moveTo(toX(index), toY(point.value));
+      } else {
+        context.lineTo(toX(index), toY(point.value));
+      }
+    });
+    context.stroke();
+
+    // 점이 적으면 각 점을 표시
+    if (points.length <= 30) {
+      context.fillStyle = StatsCharts.LINE_COLOR;
+      points.forEach((point, index) => {
+        context.beginPath();
+        context.arc(toX(index), toY(point.value), 3, 0, Math.PI * 2);
+        context.fill();
+      });
+    }
+  }
+
+  private drawBars(
+    context: CanvasRenderingContext2D,
+    points: ChartPoint[],
+    maxValue: number
+  ): void {
+    const { top, right, bottom, left } = StatsCharts.PADDING;
+    const plotWidth = StatsCharts.WIDTH - left - right;
+    const plotHeight = StatsCharts.HEIGHT - top - bottom;
+    const slot = plotWidth / points.length;
+    const barWidth = Math.max(1, slot * 0.8);
+
+    points.forEach((point, index) => {
+      const height = (point.value / maxValue) * plotHeight;
+      context.fillStyle = point.color ?? StatsCharts.LINE_COLOR;
+      context.fillRect(
+        left + index * slot + (slot - barWidth) / 2,
+        top + plotHeight - height,
+        barWidth,
+        height
+      );
+    });
+  }
+}
@@ -77,8 +77,8 @@ export class GameApplication {
       this.toastUI = new ToastUI(this.app);
       this.gameController.setToastUI(this.toastUI);
 
-      // UI 이벤트 설정
-      this.setupUI();
+      // 새 게임/되돌리기/힌트 버튼 이벤트는 MenuUI에서 처리
+      // (여기서 다시 등록하면 클릭 한 번에 동작이 두 번 실행됨)
 
       // Resize 이벤트 설정
       this.setupResizeHandler();
@@ -112,38 +112,6 @@ export class GameApplication {
     }
   }
 
-  private setupUI(): void {
-    // 새 게임 버튼
-    const newGameBtn = document.getElementById("newGameBtn");
-    if (newGameBtn) {
-      newGameBtn.addEventListener("click", () => {
-        if (this.gameController) {
-          this.gameController.newGame();
-        }
-      });
-    }
-
-    // 되돌리기 버튼
-    const undoBtn = document.getElementById("undoBtn");
-    if (undoBtn) {
-      undoBtn.addEventListener("click", () => {
-        if (this.gameController) {
-          this.gameController.undoLastMove();
-        }
-      });
-    }
-
-    // 힌트 버튼
-    const hintBtn = document.getElementById("hintBtn");
-    if (hintBtn) {
-      hintBtn.addEventListener("click", () => {
-        if (this.gameController) {
-          this.gameController.showHint();
-        }
-      });
-    }
-  }
-
   private setupResizeHandler(): void {
     let resizeTimeout: number;
     let isResizing = false;
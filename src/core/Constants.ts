@@ -13,6 +13,7 @@ export interface GameConstants {
   CARD_SCALE: number;
   CARD_SPACING: number;
   STACK_OFFSET_Y: number;
+  WASTE_FAN_OFFSET_X: number;
 
   // 레이아웃 설정
   MARGIN: number;
@@ -55,6 +56,7 @@ export interface GameConstants {
     FOUNDATION_PILES: number;
     CARDS_PER_SUIT: number;
     TOTAL_CARDS: number;
+    MAX_DEAL_NUMBER: number;
   };
 }
 
@@ -69,6 +71,7 @@ export const CONSTANTS: GameConstants = {
   CARD_SCALE: 1.0,
   CARD_SPACING: 18,
   STACK_OFFSET_Y: 20,
+  WASTE_FAN_OFFSET_X: 20, // 3장 뽑기에서 펼친 Waste 카드 사이 간격
 
   // 레이아웃 설정
   MARGIN: 20,
@@ -116,5 +119,6 @@ export const CONSTANTS: GameConstants = {
     FOUNDATION_PILES: 4,
     CARDS_PER_SUIT: 13,
     TOTAL_CARDS: 52,
+    MAX_DEAL_NUMBER: 1000000,
   },
 } as const;
\ No newline at end of file
@@ -0,0 +1,67 @@
+// PixiJS 솔리테어 - 카드 ID 표현 (렌더러 없이 사용하는 순수 TypeScript)
+
+import { CONSTANTS } from "@/core/Constants";
+import type { Suit, Rank } from "@/types/global";
+
+// 카드 ID: 수트 순서 * 13 + 랭크 순서 (0 ~ 51)
+export type CardId = number;
+
+export class CardIds {
+  // 수트와 랭크로 카드 ID 생성
+  static create(suit: Suit, rank: Rank): CardId {
+    return (
+      CONSTANTS.SUITS.indexOf(suit) * CONSTANTS.GAME.CARDS_PER_SUIT +
+      CONSTANTS.RANKS.indexOf(rank)
+    );
+  }
+
+  // Card 객체 등 suit/rank를 가진 값에서 카드 ID 생성
+  static fromCard(card: { suit: Suit; rank: Rank }): CardId {
+    return CardIds.create(card.suit, card.rank);
+  }
+
+  // "A_hearts" 형식의 이름에서 카드 ID 생성
+  static fromString(name: string): CardId | null {
+    const [rank, suit] = name.split("_");
+    if (
+      !CONSTANTS.RANKS.includes(rank as Rank) ||
+      !CONSTANTS.SUITS.includes(suit as Suit)
+    ) {
+      return null;
+    }
+    return CardIds.create(suit as Suit, rank as Rank);
+  }
+
+  static suit(id: CardId): Suit {
+    return CONSTANTS.SUITS[Math.floor(id / CONSTANTS.GAME.CARDS_PER_SUIT)];
+  }
+
+  static rank(id: CardId): Rank {
+    return CONSTANTS.RANKS[id % CONSTANTS.GAME.CARDS_PER_SUIT];
+  }
+
+  // 카드 값 (A = 1 ... K = 13)
+  static value(id: CardId): number {
+    return (id % CONSTANTS.GAME.CARDS_PER_SUIT) + 1;
+  }
+
+  static isRed(id: CardId): boolean {
+    const suit = CardIds.suit(id);
+    return suit === "hearts" || suit === "diamonds";
+  }
+
+  // Card.toString()과 같은 형식
+  static toString(id: CardId): string {
+    return `${CardIds.rank(id)}_${CardIds.suit(id)}`;
+  }
+
+  // 화면에 표시할 짧은 이름 (예: "10♥")
+  static toLabel(id: CardId): string {
+    return `${CardIds.rank(id)}${CONSTANTS.SUIT_SYMBOLS[CardIds.suit(id)]}`;
+  }
+
+  // Utils.createDeck()과 같은 순서의 52장 카드 ID
+  static createDeck(): CardId[] {
+    return Array.from({ length: CONSTANTS.GAME.TOTAL_CARDS }, (_, id) => id);
+  }
+}
@@ -0,0 +1,199 @@
+// PixiJS 솔리테어 - 클론다이크 규칙 엔진 테스트
+
+import { describe, expect, it } from "vitest";
+import { CONSTANTS } from "@/core/Constants";
+import { CardIds, type CardId } from "@/engine/CardIds";
+import { KlondikeEngine, type KlondikeState } from "@/engine/KlondikeEngine";
+import type { Rank, Suit } from "@/types/global";
+
+const card = (rank: Rank, suit: Suit): CardId => CardIds.create(suit, rank);
+
+// 한 수트를 A부터 K까지 쌓은 Foundation
+const fullFoundation = (suit: Suit): CardId[] =>
+  CONSTANTS.RANKS.map((rank) => card(rank, suit));
+
+// 하트만 Tableau에 남고 나머지 세 수트는 Foundation에 모두 올라간 상태
+function heartsLeftState(column: CardId[], faceDown: number): KlondikeState {
+  return {
+    stock: [],
+    waste: [],
+    foundations: [
+      [],
+      fullFoundation("diamonds"),
+      fullFoundation("clubs"),
+      fullFoundation("spades"),
+    ],
+    tableau: [column, [], [], [], [], [], []],
+    faceDown: [faceDown, 0, 0, 0, 0, 0, 0],
+    drawCount: 1,
+    recyclesLeft: null,
+  };
+}
+
+describe("KlondikeEngine.deal", () => {
+  it("같은 딜 번호는 같은 배치를 만든다", () => {
+    expect(KlondikeEngine.deal(42, 3)).toEqual(KlondikeEngine.deal(42, 3));
+    expect(KlondikeEngine.deal(42, 3)).not.toEqual(KlondikeEngine.deal(43, 3));
+  });
+
+  it("7줄에 1~7장을 놓고 맨 위 카드만 앞면으로 둔다", () => {
+    const state = KlondikeEngine.deal(1, 1);
+
+    expect(state.tableau.map((column) => column.length)).toEqual([
+      1, 2, 3, 4, 5, 6, 7,
+    ]);
+    expect(state.faceDown).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(state.stock).toHaveLength(24);
+    expect(state.waste).toHaveLength(0);
+  });
+
+  it("딜 번호가 나타내는 배치가 바뀌지 않는다 (공유한 딜 번호 호환)", () => {
+    const state = KlondikeEngine.deal(1, 1);
+
+    expect(
+      state.tableau.map((column) => CardIds.toString(column[column.length - 1]))
+    ).toEqual([
+      "7_clubs",
+      "A_clubs",
+      "A_diamonds",
+      "4_spades",
+      "10_hearts",
+      "Q_clubs",
+      "5_clubs",
+    ]);
+  });
+});
+
+describe("KlondikeEngine.legalMoves", () => {
+  it("처음 배치에서는 뒤집기 없이 Stock 뽑기를 포함한다", () => {
+    const moves = KlondikeEngine.legalMoves(KlondikeEngine.deal(1, 1));
+
+    expect(moves).toContainEqual({ type: "draw" });
+    expect(moves.some((move) => move.type === "flip")).toBe(false);
+    expect(moves.some((move) => move.type === "recycle")).toBe(false);
+  });
+
+  it("뒷면만 남은 컬럼은 뒤집을 수 있다", () => {
+    const state = heartsLeftState([card("A", "hearts")], 1);
+
+    expect(KlondikeEngine.legalMoves(state)).toContainEqual({
+      type: "flip",
+      column: 0,
+    });
+  });
+
+  it("빈 Foundation에는 A만 올릴 수 있다", () => {
+    const withAce = heartsLeftState(
+      [card("2", "hearts"), card("A", "hearts")],
+      1
+    );
+    const withTwo = heartsLeftState(
+      [card("A", "hearts"), card("2", "hearts")],
+      1
+    );
+    const toFoundation = {
+      type: "move",
+      from: { type: "tableau", index: 0 },
+      to: { type: "foundation", index: 0 },
+      count: 1,
+    };
+
+    expect(KlondikeEngine.legalMoves(withAce)).toContainEqual(toFoundation);
+    expect(KlondikeEngine.legalMoves(withTwo)).not.toContainEqual(toFoundation);
+  });
+
+  it("재활용 횟수를 다 쓰면 Waste를 되돌릴 수 없다", () => {
+    const state: KlondikeState = {
+      ...heartsLeftState([], 0),
+      waste: [card("A", "hearts")],
+      recyclesLeft: 0,
+    };
+
+    expect(KlondikeEngine.legalMoves(state)).not.toContainEqual({
+      type: "recycle",
+    });
+    expect(
+      KlondikeEngine.legalMoves({ ...state, recyclesLeft: 1 })
+    ).toContainEqual({ type: "recycle" });
+  });
+});
+
+describe("KlondikeEngine.applyMove", () => {
+  it("원래 상태는 그대로 두고 새 상태를 돌려준다", () => {
+    const state = KlondikeEngine.deal(7, 3);
+    const before = KlondikeEngine.cloneState(state);
+    const next = KlondikeEngine.applyMove(state, { type: "draw" });
+
+    expect(state).toEqual(before);
+    expect(next?.stock).toHaveLength(21);
+    expect(next?.waste).toEqual(state.stock.slice(-3).reverse());
+  });
+
+  it("재활용하면 Waste를 뒤집어 Stock으로 돌리고 남은 횟수를 줄인다", () => {
+    const waste = [card("3", "hearts"), card("4", "hearts")];
+    const state: KlondikeState = {
+      ...heartsLeftState([], 0),
+      waste,
+      recyclesLeft: 2,
+    };
+    const next = KlondikeEngine.applyMove(state, { type: "recycle" });
+
+    expect(next?.stock).toEqual([...waste].reverse());
+    expect(next?.waste).toEqual([]);
+    expect(next?.recyclesLeft).toBe(1);
+  });
+
+  it("규칙에 맞지 않는 이동은 null을 돌려준다", () => {
+    const state = heartsLeftState(
+      [card("A", "hearts"), card("2", "hearts")],
+      1
+    );
+
+    expect(
+      KlondikeEngine.applyMove(state, {
+        type: "move",
+        from: { type: "tableau", index: 0 },
+        to: { type: "tableau", index: 1 },
+        count: 1,
+      })
+    ).toBeNull();
+    expect(KlondikeEngine.applyMove(state, { type: "draw" })).toBeNull();
+  });
+});
+
+describe("KlondikeEngine.isDeadEnd / isWon", () => {
+  it("진전이 되는 이동이 없으면 막힌 상태다", () => {
+    const state = heartsLeftState(
+      [
+        card("A", "hearts"),
+        ...CONSTANTS.RANKS.slice(2)
+          .map((rank) => card(rank, "hearts"))
+          .reverse(),
+        card("2", "hearts"),
+      ],
+      12
+    );
+
+    expect(KlondikeEngine.isDeadEnd(state)).toBe(true);
+    expect(KlondikeEngine.isWon(state)).toBe(false);
+  });
+
+  it("Foundation에 올릴 카드가 있으면 막히지 않았다", () => {
+    const state = heartsLeftState(
+      [card("2", "hearts"), card("A", "hearts")],
+      1
+    );
+
+    expect(KlondikeEngine.isDeadEnd(state)).toBe(false);
+  });
+
+  it("52장이 모두 Foundation에 올라가면 승리다", () => {
+    const state: KlondikeState = {
+      ...heartsLeftState([], 0),
+      foundations: CONSTANTS.SUITS.map(fullFoundation),
+    };
+
+    expect(KlondikeEngine.isWon(state)).toBe(true);
+    expect(KlondikeEngine.isDeadEnd(state)).toBe(false);
+  });
+});
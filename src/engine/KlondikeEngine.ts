@@ -0,0 +1,466 @@
+// PixiJS 솔리테어 - 클론다이크 규칙 엔진 (렌더러 없이 동작하는 순수 TypeScript)
+
+import { CONSTANTS } from "@/core/Constants";
+import { Utils } from "@/utils/Utils";
+import { CardIds, type CardId } from "@/engine/CardIds";
+import type { StackType } from "@/types/global";
+
+// 스택 위치 (GameController의 CardStack type/index와 같은 의미)
+export interface PileRef {
+  type: StackType;
+  index: number;
+}
+
+// 게임 상태 모델 - 모든 배열은 마지막 요소가 맨 위 카드
+export interface KlondikeState {
+  stock: CardId[];
+  waste: CardId[];
+  foundations: CardId[][];
+  tableau: CardId[][];
+  faceDown: number[]; // 각 Tableau 컬럼 아래쪽의 뒷면 카드 수
+  drawCount: number;
+  recyclesLeft: number | null; // 남은 Waste 재활용 횟수 (null이면 제한 없음)
+}
+
+export type EngineMove =
+  | { type: "draw" }
+  | { type: "recycle" }
+  | { type: "flip"; column: number }
+  | { type: "move"; from: PileRef; to: PileRef; count: number };
+
+export class KlondikeEngine {
+  // 카드 순서로 초기 배치 (Deck.dealForSolitaire와 같은 방식: 덱의 끝에서부터 딜)
+  // allFaceUp이면 Tableau의 모든 카드를 앞면으로 놓음 (모두 공개 모드)
+  static createState(
+    order: CardId[],
+    drawCount: number,
+    recyclesLeft: number | null = null,
+    allFaceUp: boolean = false
+  ): KlondikeState {
+    const deck = [...order];
+    const tableau: CardId[][] = [];
+    const faceDown: number[] = [];
+
+    for (let col = 0; col < CONSTANTS.GAME.TABLEAU_COLUMNS; col++) {
+      const column: CardId[] = [];
+      for (let row = 0; row <= col; row++) {
+        const card = deck.pop();
+        if (card !== undefined) column.push(card);
+      }
+      tableau.push(column);
+      faceDown.push(allFaceUp ? 0 : Math.max(0, column.length - 1));
+    }
+
+    // 나머지 카드는 뽑힌 순서대로 Stock에 쌓임
+    const stock: CardId[] = [];
+    while (deck.length > 0) {
+      stock.push(deck.pop() as CardId);
+    }
+
+    return {
+      stock,
+      waste: [],
+      foundations: Array.from(
+        { length: CONSTANTS.GAME.FOUNDATION_PILES },
+        () => []
+      ),
+      tableau,
+      faceDown,
+      drawCount,
+      recyclesLeft,
+    };
+  }
+
+  // 딜 번호로 초기 배치 (Deck.shuffle(seed)와 같은 카드 순서)
+  static deal(
+    seed: number,
+    drawCount: number,
+    recyclesLeft: number | null = null,
+    allFaceUp: boolean = false
+  ): KlondikeState {
+    const order = Utils.shuffle(
+      CardIds.createDeck(),
+      Utils.createSeededRandom(seed)
+    );
+    return KlondikeEngine.createState(
+      order,
+      drawCount,
+      recyclesLeft,
+      allFaceUp
+    );
+  }
+
+  static cloneState(state: KlondikeState): KlondikeState {
+    return {
+      stock: [...state.stock],
+      waste: [...state.waste],
+      foundations: state.foundations.map((pile) => [...pile]),
+      tableau: state.tableau.map((column) => [...column]),
+      faceDown: [...state.faceDown],
+      drawCount: state.drawCount,
+      recyclesLeft: state.recyclesLeft,
+    };
+  }
+
+  // 스택 참조로 카드 배열 얻기
+  static getPile(state: KlondikeState, ref: PileRef): CardId[] | null {
+    switch (ref.type) {
+      case "stock":
+        return state.stock;
+      case "waste":
+        return state.waste;
+      case "foundation":
+        return state.foundations[ref.index] ?? null;
+      case "tableau":
+        return state.tableau[ref.index] ?? null;
+      default:
+        return null;
+    }
+  }
+
+  // Foundation에 올릴 수 있는지 (같은 수트, A부터 오름차순)
+  static canPlaceOnFoundation(card: CardId, pile: CardId[]): boolean {
+    if (pile.length === 0) {
+      return CardIds.value(card) === 1;
+    }
+
+    const topCard = pile[pile.length - 1];
+    return (
+      CardIds.suit(card) === CardIds.suit(topCard) &&
+      CardIds.value(card) === CardIds.value(topCard) + 1
+    );
+  }
+
+  // Tableau에 올릴 수 있는지 (다른 색, 1 작은 값, 빈 칸에는 K만)
+  static canPlaceOnTableau(
+    card: CardId,
+    column: CardId[],
+    faceDown: number = 0
+  ): boolean {
+    if (column.length === 0) {
+      return CardIds.value(card) === 13;
+    }
+
+    // 뒷면 카드 위에는 올 수 없음
+    if (column.length <= faceDown) return false;
+
+    const topCard = column[column.length - 1];
+    return (
+      CardIds.isRed(card) !== CardIds.isRed(topCard) &&
+      CardIds.value(card) === CardIds.value(topCard) - 1
+    );
+  }
+
+  // 카드들이 색을 번갈아 1씩 내려가는 연속인지
+  static isValidRun(cards: CardId[]): boolean {
+    for (let i = 1; i < cards.length; i++) {
+      const prevCard = cards[i - 1];
+      const currCard = cards[i];
+
+      if (CardIds.isRed(prevCard) === CardIds.isRed(currCard)) return false;
+      if (CardIds.value(prevCard) !== CardIds.value(currCard) + 1) return false;
+    }
+    return true;
+  }
+
+  // Tableau 컬럼 위쪽에서 함께 옮길 수 있는 최대 카드 수
+  static getMovableRunLength(state: KlondikeState, column: number): number {
+    const cards = state.tableau[column];
+    const faceUp = cards.length - state.faceDown[column];
+    if (faceUp <= 0) return 0;
+
+    let length = 1;
+    while (length < faceUp) {
+      const upper = cards[cards.length - length - 1];
+      const lower = cards[cards.length - length];
+      if (!KlondikeEngine.isValidRun([upper, lower])) break;
+      length++;
+    }
+
+    return length;
+  }
+
+  // 이동 유효성 검사
+  static isLegalMove(state: KlondikeState, move: EngineMove): boolean {
+    switch (move.type) {
+      case "draw":
+        return state.stock.length > 0;
+      case "recycle":
+        return (
+          state.stock.length === 0 &&
+          state.waste.length > 0 &&
+          state.recyclesLeft !== 0
+        );
+      case "flip": {
+        const column = state.tableau[move.column];
+        return (
+          column !== undefined &&
+          column.length > 0 &&
+          state.faceDown[move.column] === column.length
+        );
+      }
+      case "move":
+        return KlondikeEngine.isLegalCardMove(state, move);
+      default:
+        return false;
+    }
+  }
+
+  private static isLegalCardMove(
+    state: KlondikeState,
+    move: Extract<EngineMove, { type: "move" }>
+  ): boolean {
+    const { from, to, count } = move;
+    const source = KlondikeEngine.getPile(state, from);
+    const target = KlondikeEngine.getPile(state, to);
+    if (!source || !target || source === target) return false;
+    if (count < 1 || count > source.length) return false;
+
+    // 여러 장은 Tableau에서 Tableau로만
+    if (count > 1) {
+      if (from.type !== "tableau" || to.type !== "tableau") return false;
+      if (count > KlondikeEngine.getMovableRunLength(state, from.index)) {
+        return false;
+      }
+    }
+
+    // 옮길 카드가 모두 앞면이어야 함
+    if (from.type === "stock") return false;
+    if (
+      from.type === "tableau" &&
+      source.length - count < state.faceDown[from.index]
+    ) {
+      return false;
+    }
+
+    const card = source[source.length - count];
+    switch (to.type) {
+      case "foundation":
+        return count === 1 && KlondikeEngine.canPlaceOnFoundation(card, target);
+      case "tableau":
+        return KlondikeEngine.canPlaceOnTableau(
+          card,
+          target,
+          state.faceDown[to.index]
+        );
+      default:
+        return false;
+    }
+  }
+
+  // 현재 상태에서 가능한 모든 이동
+  static legalMoves(state: KlondikeState): EngineMove[] {
+    const moves: EngineMove[] = [];
+    const columns = state.tableau.length;
+
+    // Tableau 뒷면 카드 뒤집기
+    for (let col = 0; col < columns; col++) {
+      const move: EngineMove = { type: "flip", column: col };
+      if (KlondikeEngine.isLegalMove(state, move)) moves.push(move);
+    }
+
+    // Waste와 Tableau 맨 위 카드를 Foundation으로
+    const sources: PileRef[] = [
+      { type: "waste", index: 0 },
+      ...state.tableau.map((_, index) => ({ type: "tableau" as const, index })),
+    ];
+    sources.forEach((from) => {
+      state.foundations.forEach((_, index) => {
+        const move: EngineMove = {
+          type: "move",
+          from,
+          to: { type: "foundation", index },
+          count: 1,
+        };
+        if (KlondikeEngine.isLegalMove(state, move)) moves.push(move);
+      });
+    });
+
+    // Tableau로 이동 (Waste, Foundation에서 한 장 / Tableau에서 연속된 카드)
+    for (let to = 0; to < columns; to++) {
+      const target: PileRef = { type: "tableau", index: to };
+
+      const singles: PileRef[] = [
+        { type: "waste", index: 0 },
+        ...state.foundations.map((_, index) => ({
+          type: "foundation" as const,
+          index,
+        })),
+      ];
+      singles.forEach((from) => {
+        const move: EngineMove = { type: "move", from, to: target, count: 1 };
+        if (KlondikeEngine.isLegalMove(state, move)) moves.push(move);
+      });
+
+      for (let from = 0; from < columns; from++) {
+        if (from === to) continue;
+        const column = state.tableau[from];
+        const runLength = KlondikeEngine.getMovableRunLength(state, from);
+        for (let count = 1; count <= runLength; count++) {
+          const card = column[column.length - count];
+          if (
+            KlondikeEngine.canPlaceOnTableau(
+              card,
+              state.tableau[to],
+              state.faceDown[to]
+            )
+          ) {
+            moves.push({
+              type: "move",
+              from: { type: "tableau", index: from },
+              to: target,
+              count,
+            });
+          }
+        }
+      }
+    }
+
+    // Stock 뽑기 / Waste 재활용
+    if (state.stock.length > 0) {
+      moves.push({ type: "draw" });
+    } else if (KlondikeEngine.isLegalMove(state, { type: "recycle" })) {
+      moves.push({ type: "recycle" });
+    }
+
+    return moves;
+  }
+
+  // 이동 적용 - 원래 상태는 바꾸지 않고 새 상태 반환 (불가능한 이동이면 null)
+  static applyMove(
+    state: KlondikeState,
+    move: EngineMove
+  ): KlondikeState | null {
+    if (!KlondikeEngine.isLegalMove(state, move)) return null;
+
+    const next = KlondikeEngine.cloneState(state);
+
+    switch (move.type) {
+      case "draw": {
+        const count = Math.min(next.drawCount, next.stock.length);
+        for (let i = 0; i < count; i++) {
+          next.waste.push(next.stock.pop() as CardId);
+        }
+        break;
+      }
+      case "recycle":
+        next.stock = [...next.waste].reverse();
+        next.waste = [];
+        if (next.recyclesLeft !== null) next.recyclesLeft--;
+        break;
+      case "flip":
+        next.faceDown[move.column]--;
+        break;
+      case "move": {
+        const source = KlondikeEngine.getPile(next, move.from) as CardId[];
+        const target = KlondikeEngine.getPile(next, move.to) as CardId[];
+        target.push(...source.splice(source.length - move.count, move.count));
+        break;
+      }
+    }
+
+    return next;
+  }
+
+  // 진전이 되는 이동인지 (같은 자리를 맴도는 Tableau 이동과 쓸모없는 Foundation 내리기 제외)
+  static isProductiveMove(
+    state: KlondikeState,
+    move: EngineMove,
+    availableCards: CardId[] = []
+  ): boolean {
+    switch (move.type) {
+      case "draw":
+      case "recycle":
+        return false;
+      case "flip":
+        return true;
+      case "move":
+        break;
+    }
+
+    const { from, to, count } = move;
+    if (to.type === "foundation") return true;
+    if (from.type === "waste") return true;
+
+    const source = KlondikeEngine.getPile(state, from);
+    if (!source) return false;
+
+    if (from.type === "foundation") {
+      // 내린 카드 위에 다른 카드를 올릴 수 있을 때만 의미 있음
+      const card = source[source.length - 1];
+      return availableCards.some(
+        (other) =>
+          other !== card && KlondikeEngine.canPlaceOnTableau(other, [card])
+      );
+    }
+
+    // Tableau → Tableau
+    const remaining = source.length - count;
+    if (remaining === 0) {
+      return state.tableau[to.index].length > 0; // 컬럼을 비움
+    }
+    if (
+      remaining === state.faceDown[from.index] ||
+      !KlondikeEngine.isValidRun(source.slice(remaining - 1, remaining + 1))
+    ) {
+      return true; // 뒷면 카드 또는 런에 이어지지 않는 카드(모두 공개 모드)가 드러남
+    }
+
+    const exposed = source[remaining - 1];
+    return state.foundations.some((pile) =>
+      KlondikeEngine.canPlaceOnFoundation(exposed, pile)
+    );
+  }
+
+  // 남은 재활용 횟수 안에서 Stock을 돌려도 진전이 되는 이동이 하나도 없는 막힌 상태인지
+  static isDeadEnd(state: KlondikeState): boolean {
+    if (KlondikeEngine.isWon(state)) return false;
+
+    // 뽑기와 재활용만으로 도달할 수 있는 모든 Stock/Waste 배치
+    const rotations: KlondikeState[] = [];
+    const seen = new Set<string>();
+    let current: KlondikeState | null = state;
+
+    while (current) {
+      const key = `${current.stock.join(",")}/${current.waste.join(",")}`;
+      if (seen.has(key)) break;
+      seen.add(key);
+      rotations.push(current);
+
+      const next: EngineMove =
+        current.stock.length > 0 ? { type: "draw" } : { type: "recycle" };
+      current = KlondikeEngine.applyMove(current, next);
+    }
+
+    // 어느 배치에서든 맨 위에 올 수 있는 카드와 Tableau의 앞면 카드
+    const availableCards = new Set<CardId>();
+    rotations.forEach((rotation) => {
+      if (rotation.waste.length > 0) {
+        availableCards.add(rotation.waste[rotation.waste.length - 1]);
+      }
+    });
+    state.tableau.forEach((column, index) => {
+      column.slice(state.faceDown[index]).forEach((card) => {
+        availableCards.add(card);
+      });
+    });
+    const available = [...availableCards];
+
+    return !rotations.some((rotation) =>
+      KlondikeEngine.legalMoves(rotation).some((move) =>
+        KlondikeEngine.isProductiveMove(rotation, move, available)
+      )
+    );
+  }
+
+  static getFoundationCount(state: KlondikeState): number {
+    return state.foundations.reduce((sum, pile) => sum + pile.length, 0);
+  }
+
+  // 52장이 모두 Foundation에 올라가면 승리
+  static isWon(state: KlondikeState): boolean {
+    return (
+      KlondikeEngine.getFoundationCount(state) === CONSTANTS.GAME.TOTAL_CARDS
+    );
+  }
+}
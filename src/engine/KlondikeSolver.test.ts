@@ -0,0 +1,74 @@
+// PixiJS 솔리테어 - 클론다이크 솔버 테스트
+
+import { describe, expect, it } from "vitest";
+import { CONSTANTS } from "@/core/Constants";
+import { CardIds, type CardId } from "@/engine/CardIds";
+import {
+  KlondikeEngine,
+  type EngineMove,
+  type KlondikeState,
+} from "@/engine/KlondikeEngine";
+import { KlondikeSolver } from "@/engine/KlondikeSolver";
+import type { Suit } from "@/types/global";
+
+const suitCards = (suit: Suit): CardId[] =>
+  CONSTANTS.RANKS.map((rank) => CardIds.create(suit, rank));
+
+// 하트만 첫 컬럼에 뒷면으로 남은 상태 (column은 아래쪽부터)
+function heartsLeftState(column: CardId[]): KlondikeState {
+  return {
+    stock: [],
+    waste: [],
+    foundations: [
+      [],
+      suitCards("diamonds"),
+      suitCards("clubs"),
+      suitCards("spades"),
+    ],
+    tableau: [column, [], [], [], [], [], []],
+    faceDown: [column.length, 0, 0, 0, 0, 0, 0],
+    drawCount: 1,
+    recyclesLeft: null,
+  };
+}
+
+// 찾은 이동을 차례로 적용하면 승리하는지
+function replay(state: KlondikeState, moves: EngineMove[]): boolean {
+  const end = moves.reduce<KlondikeState | null>(
+    (current, move) =>
+      current ? KlondikeEngine.applyMove(current, move) : null,
+    state
+  );
+  return end !== null && KlondikeEngine.isWon(end);
+}
+
+describe("KlondikeSolver", () => {
+  it("이길 수 있는 상태에서 승리까지의 이동을 찾는다", () => {
+    const state = heartsLeftState([...suitCards("hearts")].reverse());
+    const result = new KlondikeSolver().solve(state);
+
+    expect(result.status).toBe("winnable");
+    expect(replay(state, result.moves)).toBe(true);
+  });
+
+  // 같은 색 Foundation을 보지 않고 자동으로 올리면 ♦를 내려 ♥를 받칠 수 없어
+  // 이길 수 있는 배치를 이길 수 없다고 판정했음
+  it("자동 Foundation 이동이 이길 수 있는 수순을 막지 않는다", () => {
+    const hearts = suitCards("hearts");
+    const state = heartsLeftState([hearts[0], ...hearts.slice(2).reverse()]);
+    state.tableau[1] = [hearts[1]];
+    const result = new KlondikeSolver().solve(state);
+
+    expect(result.status).toBe("winnable");
+    expect(replay(state, result.moves)).toBe(true);
+  });
+
+  it("탐색 한도를 넘으면 알 수 없음으로 답한다", () => {
+    const result = new KlondikeSolver({ maxNodes: 1 }).solve(
+      KlondikeEngine.deal(1, 3)
+    );
+
+    expect(result.status).toBe("unknown");
+    expect(result.moves).toEqual([]);
+  });
+});
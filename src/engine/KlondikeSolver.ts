@@ -0,0 +1,259 @@
+// PixiJS 솔리테어 - 클론다이크 솔버 (깊이 우선 탐색, 렌더러 없이 동작)
+
+import { CONSTANTS } from "@/core/Constants";
+import { CardIds, type CardId } from "@/engine/CardIds";
+import {
+  KlondikeEngine,
+  type KlondikeState,
+  type EngineMove,
+  type PileRef,
+} from "@/engine/KlondikeEngine";
+
+export type SolveStatus = "winnable" | "unwinnable" | "unknown";
+
+export interface SolveResult {
+  status: SolveStatus;
+  moves: EngineMove[]; // 승리까지의 전체 이동 (winnable일 때만)
+  nodes: number; // 탐색한 상태 수
+}
+
+export interface SolverOptions {
+  maxNodes?: number; // 탐색 한도 - 넘으면 "unknown"
+}
+
+// 탐색 한도를 넘었을 때 재귀를 빠져나오기 위한 표시
+class SearchBudgetExceeded extends Error {}
+
+export class KlondikeSolver {
+  static readonly DEFAULT_MAX_NODES = 100000;
+
+  private readonly maxNodes: number;
+  private visited = new Set<string>();
+  private nodes = 0;
+
+  constructor(options: SolverOptions = {}) {
+    this.maxNodes = options.maxNodes ?? KlondikeSolver.DEFAULT_MAX_NODES;
+  }
+
+  // 현재 상태에서 이길 수 있는지와 승리까지의 이동 찾기
+  // (뒷면 카드의 정체까지 아는 상태로 탐색)
+  public solve(state: KlondikeState): SolveResult {
+    this.visited.clear();
+    this.nodes = 0;
+
+    const line: EngineMove[] = [];
+    try {
+      const won = this.search(state, line);
+      return {
+        status: won ? "winnable" : "unwinnable",
+        moves: won ? line : [],
+        nodes: this.nodes,
+      };
+    } catch (error) {
+      if (error instanceof SearchBudgetExceeded) {
+        return { status: "unknown", moves: [], nodes: this.nodes };
+      }
+      throw error;
+    }
+  }
+
+  private search(start: KlondikeState, line: EngineMove[]): boolean {
+    // 자동 이동 전의 상태로도 한 번 걸러서 불필요한 계산을 줄임
+    const startHash = KlondikeSolver.hashState(start);
+    if (this.visited.has(startHash)) return false;
+    this.visited.add(startHash);
+
+    const lineStart = line.length;
+    const state = this.applyAutoMoves(start, line);
+
+    if (KlondikeEngine.isWon(state)) return true;
+
+    const hash = KlondikeSolver.hashState(state);
+    if (hash !== startHash) {
+      if (this.visited.has(hash)) {
+        line.length = lineStart;
+        return false;
+      }
+      this.visited.add(hash);
+    }
+
+    if (++this.nodes > this.maxNodes) {
+      throw new SearchBudgetExceeded();
+    }
+
+    for (const move of this.orderedMoves(state)) {
+      const next = KlondikeEngine.applyMove(state, move);
+      if (!next) continue;
+
+      line.push(move);
+      if (this.search(next, line)) return true;
+      line.pop();
+    }
+
+    line.length = lineStart;
+    return false;
+  }
+
+  // 되돌릴 필요가 없는 이동(뒤집기, 안전한 Foundation 이동)은 바로 적용
+  private applyAutoMoves(
+    start: KlondikeState,
+    line: EngineMove[]
+  ): KlondikeState {
+    let state = start;
+    let move = this.findAutoMove(state);
+
+    while (move) {
+      state = KlondikeEngine.applyMove(state, move) as KlondikeState;
+      line.push(move);
+      move = this.findAutoMove(state);
+    }
+
+    return state;
+  }
+
+  private findAutoMove(state: KlondikeState): EngineMove | null {
+    for (let column = 0; column < state.tableau.length; column++) {
+      const flip: EngineMove = { type: "flip", column };
+      if (KlondikeEngine.isLegalMove(state, flip)) return flip;
+    }
+
+    const sources: PileRef[] = [
+      { type: "waste", index: 0 },
+      ...state.tableau.map((_, index) => ({ type: "tableau" as const, index })),
+    ];
+    for (const from of sources) {
+      for (let index = 0; index < state.foundations.length; index++) {
+        const move: EngineMove = {
+          type: "move",
+          from,
+          to: { type: "foundation", index },
+          count: 1,
+        };
+        if (
+          KlondikeEngine.isLegalMove(state, move) &&
+          this.isSafeFoundationMove(state, move)
+        ) {
+          return move;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  // 더 이상 Tableau에 받쳐 줄 필요가 없는 카드의 Foundation 이동인지
+  private isSafeFoundationMove(
+    state: KlondikeState,
+    move: EngineMove
+  ): boolean {
+    if (move.type !== "move" || move.to.type !== "foundation") return false;
+
+    const source = KlondikeEngine.getPile(state, move.from);
+    if (!source || source.length === 0) return false;
+
+    const card = source[source.length - 1];
+    const value = CardIds.value(card);
+    if (value <= 2) return true;
+
+    // 이 카드 위에 놓일 수 있는 반대 색 카드(값 - 1)가 모두 Foundation에 있고,
+    // 그 카드들을 받쳐 줄 같은 색 카드(값 - 2)도 필요 없을 때(값 - 3까지 올라감)만 안전
+    const suit = CardIds.suit(card);
+    const isRed = CardIds.isRed(card);
+    return CONSTANTS.SUITS.every((other) => {
+      if (other === suit) return true;
+      const otherRed = other === "hearts" || other === "diamonds";
+      const needed = otherRed === isRed ? value - 3 : value - 1;
+      return KlondikeSolver.getFoundationValue(state, other) >= needed;
+    });
+  }
+
+  // 유망한 이동부터 탐색하고, 의미 없는 Tableau 이동은 제외
+  private orderedMoves(state: KlondikeState): EngineMove[] {
+    const scored: { move: EngineMove; priority: number }[] = [];
+
+    KlondikeEngine.legalMoves(state).forEach((move) => {
+      const priority = this.getMovePriority(state, move);
+      if (priority !== null) scored.push({ move, priority });
+    });
+
+    return scored
+      .sort((a, b) => b.priority - a.priority)
+      .map((entry) => entry.move);
+  }
+
+  private getMovePriority(
+    state: KlondikeState,
+    move: EngineMove
+  ): number | null {
+    switch (move.type) {
+      case "flip":
+        return 100;
+      case "draw":
+        return 10;
+      case "recycle":
+        return 5;
+      case "move":
+        break;
+    }
+
+    const { from, to, count } = move;
+
+    if (to.type === "foundation") {
+      return from.type === "tableau" ? 90 : 80;
+    }
+
+    if (from.type === "waste") return 50;
+    if (from.type === "foundation") return 1;
+
+    // Tableau → Tableau
+    const column = state.tableau[from.index];
+    const remaining = column.length - count;
+    // 런 전체를 옮겨 아래 카드를 드러내는 이동 (모두 공개 모드에서는 뒷면 카드 대신
+    // 런에 이어지지 않는 앞면 카드가 드러남)
+    const revealsCard =
+      remaining > 0 &&
+      (remaining === state.faceDown[from.index] ||
+        !KlondikeEngine.isValidRun(column.slice(remaining - 1, remaining + 1)));
+
+    if (remaining === 0) {
+      // 빈 칸으로 컬럼 전체를 옮기는 것은 의미 없음
+      return state.tableau[to.index].length === 0 ? null : 40;
+    }
+    if (revealsCard) return 70 + state.faceDown[from.index];
+
+    // 런의 일부만 옮기는 것은 드러난 카드가 Foundation으로 갈 수 있을 때만
+    const exposed = column[remaining - 1];
+    const canFound = state.foundations.some((pile) =>
+      KlondikeEngine.canPlaceOnFoundation(exposed, pile)
+    );
+    return canFound ? 60 : null;
+  }
+
+  private static getFoundationValue(
+    state: KlondikeState,
+    suit: string
+  ): number {
+    for (const pile of state.foundations) {
+      if (pile.length > 0 && CardIds.suit(pile[0]) === suit) {
+        return pile.length;
+      }
+    }
+    return 0;
+  }
+
+  // 전치표용 상태 해시 - 컬럼과 Foundation의 순서는 무시 (남은 재활용 횟수는 포함)
+  static hashState(state: KlondikeState): string {
+    const ids = (cards: CardId[]) => cards.join(",");
+    const tableau = state.tableau
+      .map((column, index) => `${state.faceDown[index]}:${ids(column)}`)
+      .sort()
+      .join("|");
+    const foundations = CONSTANTS.SUITS.map((suit) =>
+      KlondikeSolver.getFoundationValue(state, suit)
+    ).join(",");
+
+    return `${ids(state.stock)}/${ids(state.waste)}/${foundations}/${tableau}/${
+      state.recyclesLeft ?? "-"
+    }`;
+  }
+}
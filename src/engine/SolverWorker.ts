@@ -0,0 +1,21 @@
+// PixiJS 솔리테어 - 솔버 Web Worker (메인 스레드의 렌더링을 막지 않도록 별도 스레드에서 탐색)
+
+import { KlondikeSolver, type SolveResult } from "@/engine/KlondikeSolver";
+import type { KlondikeState } from "@/engine/KlondikeEngine";
+
+export interface SolverRequest {
+  id: number;
+  state: KlondikeState;
+  maxNodes?: number;
+}
+
+export interface SolverResponse extends SolveResult {
+  id: number;
+}
+
+self.onmessage = (event: MessageEvent<SolverRequest>) => {
+  const { id, state, maxNodes } = event.data;
+  const result = new KlondikeSolver({ maxNodes }).solve(state);
+  const response: SolverResponse = { id, ...result };
+  self.postMessage(response);
+};
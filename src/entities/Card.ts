@@ -318,6 +318,16 @@ export class Card {
   }
 
   private onPointerDown(event: PIXI.FederatedPointerEvent): void {
+    // 짝 맞추기 게임 종류는 드래그 대신 클릭한 카드를 고름 (Stock은 아래에서 뽑기로 처리)
+    if (
+      this.faceUp &&
+      this.currentStack?.usesPairSelection &&
+      this.currentStack.type !== "stock"
+    ) {
+      this.dispatchEvent("selected", { card: this });
+      return;
+    }
+
     // 더블클릭 확인
     const currentTime = Date.now();
     const isDoubleClick =
@@ -412,7 +422,7 @@ export class Card {
       const proxy = this.createCardProxy(
         card,
         cardGlobal.x,
-        cardGlobal.y + index * CONSTANTS.STACK_OFFSET_Y * this.scale,
+        cardGlobal.y + index * this.getStackOffsetY(),
         index === 0 // 첫 번째 프록시에만 이벤트 리스너 추가
       );
       this.dragProxies.push(proxy);
@@ -502,6 +512,14 @@ export class Card {
     return proxy;
   }
 
+  // 함께 드래그하는 카드 사이 간격 (스택이 줄인 간격을 그대로 따름)
+  private getStackOffsetY(): number {
+    return (
+      this.currentStack?.getCardOffsetY() ??
+      CONSTANTS.STACK_OFFSET_Y * this.scale
+    );
+  }
+
   private onPointerMove(event: PIXI.FederatedPointerEvent): void {
     if (
       this.isDragging &&
@@ -517,7 +535,7 @@ export class Card {
         proxy.y =
           mousePos.y -
           this.dragOffset!.y +
-          index * CONSTANTS.STACK_OFFSET_Y * this.scale;
+          index * this.getStackOffsetY();
       });
 
       console.log(
@@ -575,7 +593,8 @@ export class Card {
   }
 
   private onDoubleClick(): void {
-    if (this.faceUp) {
+    // Stock 카드는 모두 공개 모드에서 앞면이어도 뽑아야만 쓸 수 있음
+    if (this.faceUp && this.currentStack?.type !== "stock") {
       this.dispatchEvent("doubleclick", { card: this });
       console.log(`카드 ${this.toString()} 더블클릭`);
     }
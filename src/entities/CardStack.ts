@@ -3,7 +3,10 @@
 import * as PIXI from "pixi.js";
 import { CONSTANTS } from "@/core/Constants";
 import { Utils } from "@/utils/Utils";
+import { CardIds } from "@/engine/CardIds";
+import type { PileRef } from "@/engine/KlondikeEngine";
 import type { Card } from "@/entities/Card";
+import type { VariantDefinition } from "@/variants/Variant";
 import type { StackType, Position } from "@/types/global";
 
 export class CardStack {
@@ -11,6 +14,8 @@ export class CardStack {
   public readonly index: number;
   public readonly cards: Card[] = [];
 
+  // 이 스택이 속한 게임 종류 (배치와 쌓기 규칙)
+  private readonly variant: VariantDefinition;
   private scale: number;
   private originalScale: number;
   private isClickAnimating: boolean = false;
@@ -21,17 +26,30 @@ export class CardStack {
   private dropZone!: PIXI.Graphics;
   private dropZoneAnimation: number | null = null;
   private emptyStockGraphic?: PIXI.Graphics;
-
-  constructor(type: StackType, index: number = 0, scale: number = 1) {
+  private stockPassText?: PIXI.Text;
+  private isStockExhausted: boolean = false; // Stock을 더 넘길 수 없음
+
+  // Waste에서 맨 위 몇 장을 펼쳐 보일지 (3장 뽑기면 3)
+  private fanLimit: number = 1;
+  private hintHighlight: PIXI.Graphics | null = null;
+  private hintHighlightTimer: number | null = null;
+
+  constructor(
+    type: StackType,
+    index: number,
+    scale: number,
+    variant: VariantDefinition
+  ) {
     this.type = type;
     this.index = index;
     this.scale = scale;
+    this.variant = variant;
     this.originalScale = type === "stock" ? 1 : scale;
 
     this.container = new PIXI.Container();
 
     // 스택 위치
-    this.position = Utils.getStackPosition(type, index, this.scale);
+    this.position = Utils.getStackPosition(variant, this.ref, this.scale);
     this.container.x = this.position.x;
     this.container.y = this.position.y;
 
@@ -44,6 +62,16 @@ export class CardStack {
     }
   }
 
+  // 엔진과 게임 종류 규칙에서 쓰는 스택 참조
+  public get ref(): PileRef {
+    return { type: this.type, index: this.index };
+  }
+
+  // 드래그 대신 클릭으로 카드를 골라 짝을 맞추는 게임 종류인지
+  public get usesPairSelection(): boolean {
+    return this.variant.canPair !== undefined;
+  }
+
   private setupDropZone(): void {
     // 드롭존 영역 (투명한 사각형)
     this.dropZone = new PIXI.Graphics();
@@ -88,11 +116,8 @@ export class CardStack {
 
     // 빈 카드 배경
     this.emptyStockGraphic = new PIXI.Graphics();
-    this.emptyStockGraphic.roundRect(0, 0, cardWidth, cardHeight, 6);
-    this.emptyStockGraphic.fill({ color: 0x2c3e50, alpha: 0.3 });
-    this.emptyStockGraphic.stroke({ color: 0x34495e, width: 2, alpha: 0.8 });
 
-    // "덱" 텍스트
+    // "덱" 텍스트 (더 넘길 수 없으면 "끝")
     const deckText = new PIXI.Text({
       text: "덱",
       style: {
@@ -106,11 +131,73 @@ export class CardStack {
     deckText.x = cardWidth / 2;
     deckText.y = cardHeight / 2;
     this.emptyStockGraphic.addChild(deckText);
+    this.drawEmptyStock();
 
     this.container.addChild(this.emptyStockGraphic);
+
+    // Stock 넘기기 횟수 표시 (제한이 있을 때만, Stock 바로 위)
+    this.stockPassText = new PIXI.Text({
+      text: "",
+      style: {
+        fontFamily: "Arial, sans-serif",
+        fontSize: Math.max(10, Math.floor(11 * this.scale)),
+        fill: 0xffffff,
+        fontWeight: "bold",
+      },
+    });
+    this.stockPassText.anchor.set(0.5, 1);
+    this.stockPassText.x = cardWidth / 2;
+    this.stockPassText.y = -4;
+    this.stockPassText.visible = false;
+    this.container.addChild(this.stockPassText);
+
     this.updateEmptyStockVisibility();
   }
 
+  // 빈 Stock 배경 그리기 (더 넘길 수 없으면 흐리게)
+  private drawEmptyStock(): void {
+    if (!this.emptyStockGraphic) return;
+
+    const cardWidth = CONSTANTS.CARD_WIDTH * CONSTANTS.CARD_SCALE * this.scale;
+    const cardHeight =
+      CONSTANTS.CARD_HEIGHT * CONSTANTS.CARD_SCALE * this.scale;
+
+    this.emptyStockGraphic.clear();
+    this.emptyStockGraphic.roundRect(0, 0, cardWidth, cardHeight, 6);
+    if (this.isStockExhausted) {
+      this.emptyStockGraphic.fill({ color: 0x000000, alpha: 0.15 });
+      this.emptyStockGraphic.stroke({ color: 0x7f8c8d, width: 2, alpha: 0.4 });
+    } else {
+      this.emptyStockGraphic.fill({ color: 0x2c3e50, alpha: 0.3 });
+      this.emptyStockGraphic.stroke({ color: 0x34495e, width: 2, alpha: 0.8 });
+    }
+
+    const deckText = this.emptyStockGraphic.children[0];
+    if (deckText instanceof PIXI.Text) {
+      deckText.text = this.isStockExhausted ? "끝" : "덱";
+      deckText.alpha = this.isStockExhausted ? 0.5 : 1;
+    }
+  }
+
+  // Stock 넘기기 횟수 표시 (pass번째로 넘기는 중, limit이 null이면 제한 없음)
+  public setStockPasses(pass: number, limit: number | null): void {
+    if (this.type !== "stock") return;
+
+    const isExhausted = limit !== null && pass >= limit;
+    if (isExhausted !== this.isStockExhausted) {
+      this.isStockExhausted = isExhausted;
+      this.drawEmptyStock();
+    }
+    this.container.cursor =
+      isExhausted && this.isEmpty() ? "default" : "pointer";
+
+    if (this.stockPassText) {
+      this.stockPassText.visible = limit !== null;
+      this.stockPassText.text =
+        limit !== null ? `${Math.min(pass, limit)} / ${limit}` : "";
+    }
+  }
+
   private updateEmptyStockVisibility(): void {
     if (this.emptyStockGraphic) {
       this.emptyStockGraphic.visible = this.isEmpty();
@@ -145,15 +232,19 @@ export class CardStack {
     card.currentStack = this;
     card.stackIndex = this.cards.length - 1;
 
-    // 카드 위치 업데이트 (안전하게)
+    // 카드 위치 업데이트 (Tableau는 간격이 좁아질 수 있어 전체를 다시 배치)
     try {
-      this.updateCardPosition(card);
+      if (this.type === "tableau") {
+        this.updateAllCardPositions();
+      } else {
+        this.updateCardPosition(card);
+      }
     } catch (error) {
       console.warn("카드 위치 업데이트 실패:", error);
     }
 
-    // 카드 드래그 가능 상태 설정
-    this.updateCardDraggable(card);
+    // 카드 드래그 가능 상태 설정 (아래쪽 카드들도 함께 옮길 수 있는지 달라짐)
+    this.updateAllCardsDraggable();
 
     // Tableau의 경우 드롭존 크기 업데이트
     if (this.type === "tableau") {
@@ -168,27 +259,15 @@ export class CardStack {
     console.log(`카드 ${card.toString()}가 ${this.type} 스택에 추가됨`);
   }
 
+  // 카드부터 맨 위까지를 함께 집어 들 수 있을 때만 드래그 가능 (규칙은 게임 종류가 결정)
   private updateCardDraggable(card: Card): void {
-    let draggable = false;
-
-    switch (this.type) {
-      case "tableau":
-        // Tableau에서는 맨 위 카드만 드래그 가능
-        draggable = this.getTopCard() === card && card.faceUp;
-        break;
-      case "waste":
-        // Waste에서는 맨 위 카드만 드래그 가능
-        draggable = this.getTopCard() === card && card.faceUp;
-        break;
-      case "foundation":
-        // Foundation에서는 맨 위 카드만 드래그 가능
-        draggable = this.getTopCard() === card && card.faceUp;
-        break;
-      case "stock":
-        // Stock은 클릭만 가능, 드래그 불가
-        draggable = false;
-        break;
-    }
+    const cards = this.cards.slice(this.cards.indexOf(card));
+    const draggable =
+      cards.every((c) => c.faceUp) &&
+      this.variant.canPickUp(
+        cards.map((c) => CardIds.fromCard(c)),
+        this.ref
+      );
 
     card.setDraggable(draggable);
   }
@@ -208,7 +287,14 @@ export class CardStack {
       card.stackIndex = -1;
 
       // 남은 카드들의 인덱스 업데이트
-      this.updateAllCardPositions();
+      // (Waste는 펼침이 바뀌므로 GameController가 애니메이션으로 다시 펼침)
+      if (this.type === "waste") {
+        this.cards.forEach((remaining, cardIndex) => {
+          remaining.stackIndex = cardIndex;
+        });
+      } else {
+        this.updateAllCardPositions();
+      }
 
       // 남은 카드들의 드래그 가능 상태 업데이트
       this.updateAllCardsDraggable();
@@ -244,9 +330,22 @@ export class CardStack {
     let y = 0;
 
     switch (this.type) {
+      case "waste": {
+        // 맨 위 카드들은 가로로 펼치고 나머지는 같은 위치에 겹쳐서 배치
+        const fanStart =
+          this.cards.length - Math.min(this.fanLimit, this.cards.length);
+        x =
+          cardIndex >= fanStart
+            ? (cardIndex - fanStart) * CONSTANTS.WASTE_FAN_OFFSET_X * this.scale
+            : 0;
+        y = 0;
+        break;
+      }
+
       case "stock":
-      case "waste":
       case "foundation":
+      case "cell":
+      case "pyramid":
         // 이들은 같은 위치에 겹쳐서 배치
         x = 0;
         y = 0;
@@ -255,13 +354,34 @@ export class CardStack {
       case "tableau":
         // Tableau는 계단식으로 배치
         x = 0;
-        y = cardIndex * CONSTANTS.STACK_OFFSET_Y * this.scale;
+        y = cardIndex * this.getCardOffsetY();
         break;
     }
 
     return { x, y };
   }
 
+  // Tableau 카드 사이 세로 간격 (줄이 길어지면 화면 아래쪽 스택 줄에 닿지 않도록 좁힘)
+  public getCardOffsetY(): number {
+    const offset = CONSTANTS.STACK_OFFSET_Y * this.scale;
+    if (this.cards.length <= 1) return offset;
+
+    const { screenHeight, cardHeight, margin } = Utils.getLayoutMetrics(
+      this.scale
+    );
+    const available =
+      screenHeight - margin * 2 - cardHeight * 2 - this.position.y;
+    return Math.max(0, Math.min(offset, available / (this.cards.length - 1)));
+  }
+
+  // Waste에서 펼쳐 보일 최대 카드 수 (뽑기 수)
+  public setFanLimit(limit: number): void {
+    if (this.type !== "waste") return;
+
+    this.fanLimit = Math.max(1, limit);
+    this.updateAllCardPositions();
+  }
+
   public updateCardPosition(card: Card): void {
     const cardIndex = this.cards.indexOf(card);
     if (cardIndex === -1 || !card || !card.container) return;
@@ -288,50 +408,13 @@ export class CardStack {
     });
   }
 
+  // 카드를 이 스택 맨 위에 올릴 수 있는지 (규칙은 게임 종류가 결정)
   public canAcceptCard(card: Card): boolean {
-    switch (this.type) {
-      case "foundation":
-        return this.canPlaceOnFoundation(card);
-      case "tableau":
-        return this.canPlaceOnTableau(card);
-      case "waste":
-        return false; // Waste는 직접 카드를 받을 수 없음
-      case "stock":
-        return false; // Stock은 직접 카드를 받을 수 없음
-      default:
-        return false;
-    }
-  }
-
-  private canPlaceOnFoundation(card: Card): boolean {
-    if (this.isEmpty()) {
-      return card.getValue() === 1; // 빈 Foundation에는 A만
-    }
-
-    const topCard = this.getTopCard();
-    if (!topCard) return false;
-
-    const isSameSuit = card.suit === topCard.suit;
-    const isOneMore = card.getValue() === topCard.getValue() + 1;
-
-    return isSameSuit && isOneMore;
-  }
-
-  private canPlaceOnTableau(card: Card): boolean {
-    if (this.isEmpty()) {
-      return card.getValue() === 13; // 빈 Tableau에는 King만
-    }
-
-    const topCard = this.getTopCard();
-    if (!topCard) return false;
-
-    // 뒷면 카드 위에는 올 수 없음
-    if (!topCard.faceUp) return false;
-
-    // 다른 색깔이고 1 작은 값이어야 함
-    return (
-      card.isRed() !== topCard.isRed() &&
-      card.getValue() === topCard.getValue() - 1
+    return this.variant.canBuild(
+      [CardIds.fromCard(card)],
+      this.ref,
+      this.cards.map((c) => CardIds.fromCard(c)),
+      this.cards.filter((c) => !c.faceUp).length
     );
   }
 
@@ -407,7 +490,7 @@ export class CardStack {
     if (this.type === "tableau" && this.cards.length > 0) {
       const totalHeight =
         cardHeight +
-        (this.cards.length - 1) * CONSTANTS.STACK_OFFSET_Y * this.scale;
+        (this.cards.length - 1) * this.getCardOffsetY();
 
       return (
         localPoint.x >= 0 &&
@@ -438,7 +521,7 @@ export class CardStack {
     if (this.type === "tableau" && this.cards.length > 0) {
       const totalHeight =
         cardHeight +
-        (this.cards.length - 1) * CONSTANTS.STACK_OFFSET_Y * this.scale;
+        (this.cards.length - 1) * this.getCardOffsetY();
 
       this.dropZone.roundRect(0, 0, cardWidth, totalHeight, 6 * this.scale);
     } else {
@@ -464,7 +547,7 @@ export class CardStack {
     if (this.type === "tableau" && this.cards.length > 0) {
       const totalHeight =
         cardHeight +
-        (this.cards.length - 1) * CONSTANTS.STACK_OFFSET_Y * this.scale;
+        (this.cards.length - 1) * this.getCardOffsetY();
 
       this.dropZone.rect(0, 0, cardWidth, totalHeight);
     } else {
@@ -477,6 +560,53 @@ export class CardStack {
     this.stopDropZoneAnimation();
   }
 
+  // 힌트 대상 스택 테두리 강조 (일정 시간 뒤 자동 해제)
+  public showHintHighlight(duration: number = 3000): void {
+    this.clearHintHighlight();
+
+    const cardWidth = CONSTANTS.CARD_WIDTH * CONSTANTS.CARD_SCALE * this.scale;
+    const cardHeight =
+      CONSTANTS.CARD_HEIGHT * CONSTANTS.CARD_SCALE * this.scale;
+    const height =
+      this.type === "tableau" && this.cards.length > 0
+        ? cardHeight +
+          (this.cards.length - 1) * this.getCardOffsetY()
+        : cardHeight;
+    const padding = 3 * this.scale;
+
+    const highlight = new PIXI.Graphics();
+    highlight.roundRect(
+      -padding,
+      -padding,
+      cardWidth + padding * 2,
+      height + padding * 2,
+      8 * this.scale
+    );
+    highlight.stroke({
+      width: 3 * this.scale,
+      color: CONSTANTS.COLORS.HIGHLIGHT,
+    });
+
+    this.container.addChild(highlight);
+    this.hintHighlight = highlight;
+
+    this.hintHighlightTimer = window.setTimeout(() => {
+      this.clearHintHighlight();
+    }, duration);
+  }
+
+  public clearHintHighlight(): void {
+    if (this.hintHighlightTimer) {
+      clearTimeout(this.hintHighlightTimer);
+      this.hintHighlightTimer = null;
+    }
+
+    if (this.hintHighlight) {
+      this.hintHighlight.destroy();
+      this.hintHighlight = null;
+    }
+  }
+
   private animateDropZone(): void {
     if (this.dropZoneAnimation) return; // 이미 애니메이션 중
 
@@ -514,7 +644,7 @@ export class CardStack {
     // Tableau의 경우 카드 그룹의 전체 길이로 드롭존 크기 설정
     const totalHeight =
       cardHeight +
-      (this.cards.length - 1) * CONSTANTS.STACK_OFFSET_Y * this.scale;
+      (this.cards.length - 1) * this.getCardOffsetY();
 
     this.dropZone.clear();
     this.dropZone.rect(0, 0, cardWidth, totalHeight);
@@ -533,16 +663,13 @@ export class CardStack {
   public updatePosition(): void {
     try {
       // 새로운 위치 계산
-      this.position.x = Utils.getStackPosition(
-        this.type,
-        this.index,
-        this.scale
-      ).x;
-      this.position.y = Utils.getStackPosition(
-        this.type,
-        this.index,
+      const position = Utils.getStackPosition(
+        this.variant,
+        this.ref,
         this.scale
-      ).y;
+      );
+      this.position.x = position.x;
+      this.position.y = position.y;
 
       // 컨테이너 위치 업데이트
       if (this.container) {
@@ -563,7 +690,7 @@ export class CardStack {
           const totalHeight =
             this.cards.length > 0
               ? cardHeight +
-                (this.cards.length - 1) * CONSTANTS.STACK_OFFSET_Y * this.scale
+                (this.cards.length - 1) * this.getCardOffsetY()
               : cardHeight;
           this.dropZone.rect(0, 0, cardWidth, totalHeight);
         } else {
@@ -579,14 +706,7 @@ export class CardStack {
         const cardHeight =
           CONSTANTS.CARD_HEIGHT * CONSTANTS.CARD_SCALE * this.scale;
 
-        this.emptyStockGraphic.clear();
-        this.emptyStockGraphic.roundRect(0, 0, cardWidth, cardHeight, 6);
-        this.emptyStockGraphic.fill({ color: 0x2c3e50, alpha: 0.3 });
-        this.emptyStockGraphic.stroke({
-          color: 0x34495e,
-          width: 2,
-          alpha: 0.8,
-        });
+        this.drawEmptyStock();
 
         // 텍스트 크기도 업데이트
         const deckText = this.emptyStockGraphic.children[0] as PIXI.Text;
@@ -595,6 +715,15 @@ export class CardStack {
           deckText.x = cardWidth / 2;
           deckText.y = cardHeight / 2;
         }
+
+        if (this.stockPassText) {
+          this.stockPassText.style.fontSize = Math.max(
+            10,
+            Math.floor(11 * this.scale)
+          );
+          this.stockPassText.x = cardWidth / 2;
+          this.stockPassText.y = -4;
+        }
       }
 
       // 모든 카드 위치 업데이트
@@ -636,6 +765,7 @@ export class CardStack {
 
   public destroy(): void {
     this.stopDropZoneAnimation();
+    this.clearHintHighlight();
 
     this.cards.forEach((card) => card.destroy());
     this.cards.length = 0;
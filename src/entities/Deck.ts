@@ -3,11 +3,13 @@
 import { CONSTANTS } from '@/core/Constants';
 import { Card } from '@/entities/Card';
 import { Utils } from '@/utils/Utils';
+import { CardIds, type CardId } from '@/engine/CardIds';
+import type { PileRef } from '@/engine/KlondikeEngine';
+import type { DealOptions, VariantDefinition } from '@/variants/Variant';
 import type { Suit, Rank, CardData } from '@/types/global';
 
 export interface DealResult {
-  tableau: Card[][];
-  stock: Card[];
+  piles: { ref: PileRef; cards: Card[] }[];
 }
 
 export interface DeckInfo {
@@ -22,20 +24,24 @@ export class Deck {
   private cards: Card[] = [];
   private originalOrder: Card[] = [];
 
-  constructor() {
-    this.createDeck();
+  // deckCount벌의 52장 덱 (무늬를 줄이면 같은 장수가 되도록 남은 무늬를 반복)
+  constructor(deckCount: number = 1, suits: readonly Suit[] = CONSTANTS.SUITS) {
+    this.createDeck(deckCount, suits);
   }
 
-  // 52장 카드 덱 생성
-  private createDeck(): void {
+  // 카드 덱 생성
+  private createDeck(deckCount: number, suits: readonly Suit[]): void {
     this.cards = [];
 
-    CONSTANTS.SUITS.forEach((suit) => {
-      CONSTANTS.RANKS.forEach((rank) => {
-        const card = new Card(suit, rank);
-        this.cards.push(card);
+    const copies = (deckCount * CONSTANTS.SUITS.length) / suits.length;
+    for (let copy = 0; copy < copies; copy++) {
+      suits.forEach((suit) => {
+        CONSTANTS.RANKS.forEach((rank) => {
+          const card = new Card(suit, rank);
+          this.cards.push(card);
+        });
       });
-    });
+    }
 
     // 원본 순서 저장
     this.originalOrder = [...this.cards];
@@ -43,14 +49,15 @@ export class Deck {
     console.log(`${this.cards.length}장의 카드 덱이 생성되었습니다.`);
   }
 
-  // 덱 셔플
-  public shuffle(): this {
+  // 덱 셔플 (시드를 주면 같은 시드마다 항상 같은 순서)
+  public shuffle(seed?: number): this {
     const cardData = this.cards.map((card) => ({
       suit: card.suit,
       rank: card.rank,
     }));
 
-    const shuffledData = Utils.shuffle(cardData);
+    const random = seed !== undefined ? Utils.createSeededRandom(seed) : Math.random;
+    const shuffledData = Utils.shuffle(cardData, random);
 
     // 기존 카드들 정리
     this.cards.forEach((card) => card.destroy());
@@ -62,7 +69,22 @@ export class Deck {
       this.cards.push(card);
     });
 
-    console.log('덱이 셔플되었습니다.');
+    // reset()이 같은 딜을 다시 만들 수 있도록 셔플된 순서를 원본으로 저장
+    this.originalOrder = [...this.cards];
+
+    console.log(seed !== undefined ? `덱이 딜 #${seed}로 셔플되었습니다.` : '덱이 셔플되었습니다.');
+    return this;
+  }
+
+  // 카드 ID 순서대로 덱 배치 (게임 종류가 정한 딜 순서, 맨 끝이 먼저 딜됨)
+  public arrange(order: CardId[]): this {
+    this.cards.forEach((card) => card.destroy());
+    this.cards = order.map((id) => new Card(CardIds.suit(id), CardIds.rank(id)));
+
+    // reset()이 같은 딜을 다시 만들 수 있도록 배치한 순서를 원본으로 저장
+    this.originalOrder = [...this.cards];
+
+    console.log(`덱이 정해진 딜 순서로 배치되었습니다. (${this.cards.length}장)`);
     return this;
   }
 
@@ -82,38 +104,37 @@ export class Deck {
     return null;
   }
 
-  // 솔리테어 초기 배치용 카드 딜링
-  public dealForSolitaire(): DealResult {
+  // 게임 종류의 딜 모양대로 초기 배치 (딜한 카드는 덱에서 빠짐)
+  public dealForSolitaire(variant: VariantDefinition, options: DealOptions): DealResult {
+    // 여러 벌의 덱에서는 같은 카드 ID가 여러 장이므로 ID별 카드 목록으로 찾음
+    const cardsById = new Map<CardId, Card[]>();
+    this.cards.forEach((card) => {
+      const id = CardIds.fromCard(card);
+      cardsById.set(id, [...(cardsById.get(id) ?? []), card]);
+    });
+    const order = this.cards.map((card) => CardIds.fromCard(card));
+    const dealt = new Set<Card>();
+
     const dealResult: DealResult = {
-      tableau: [[], [], [], [], [], [], []], // 7개 컬럼
-      stock: [],
+      piles: variant.deal(order, options).map((pile) => ({
+        ref: pile.ref,
+        cards: pile.cards.flatMap((id, index) => {
+          const card = cardsById.get(id)?.pop();
+          if (!card) return [];
+          // 아래쪽 faceDown장만 뒷면
+          card.flip(index >= pile.faceDown);
+          dealt.add(card);
+          return [card];
+        }),
+      })),
     };
 
-    // Tableau 배치: 첫 번째 컬럼에 1장, 두 번째에 2장... 일곱 번째에 7장
-    for (let col = 0; col < CONSTANTS.GAME.TABLEAU_COLUMNS; col++) {
-      for (let row = 0; row <= col; row++) {
-        const card = this.dealCard();
-        if (card) {
-          // 맨 위 카드만 앞면으로
-          card.flip(row === col);
-          dealResult.tableau[col].push(card);
-        }
-      }
-    }
-
-    // 나머지 카드들은 Stock으로
-    while (this.cards.length > 0) {
-      const card = this.dealCard();
-      if (card) {
-        card.flip(false); // 뒷면으로
-        dealResult.stock.push(card);
-      }
-    }
+    this.cards = this.cards.filter((card) => !dealt.has(card));
 
-    console.log('솔리테어 초기 배치 완료:', {
-      tableau: dealResult.tableau.map((col) => col.length),
-      stock: dealResult.stock.length,
-    });
+    console.log(
+      `${variant.name} 초기 배치 완료:`,
+      dealResult.piles.map((pile) => `${pile.ref.type}${pile.ref.index}:${pile.cards.length}`)
+    );
 
     return dealResult;
   }
@@ -123,6 +144,11 @@ export class Deck {
     return this.cards.find((card) => card.suit === suit && card.rank === rank) || null;
   }
 
+  // 덱에 남은 카드 목록 (맨 끝이 다음에 딜될 카드)
+  public getCards(): Card[] {
+    return [...this.cards];
+  }
+
   // 남은 카드 수
   public getCount(): number {
     return this.cards.length;
@@ -0,0 +1,120 @@
+// PixiJS 솔리테어 - 업적 달성 확인 및 저장 (게임 이벤트 구독)
+
+import { Utils } from "@/utils/Utils";
+import {
+  ACHIEVEMENTS,
+  type AchievementContext,
+  type AchievementDefinition,
+  type AchievementTrigger,
+} from "@/game/Achievements";
+import type { GameState } from "@/game/GameState";
+import type { KlondikeState } from "@/engine/KlondikeEngine";
+import type { ToastUI } from "@/UI/ToastUI";
+import type {
+  MoveData,
+  GameMoveEventDetail,
+  GameCompletedEventDetail,
+} from "@/types/global";
+
+export class AchievementTracker {
+  private static readonly STORAGE_KEY = "solitaire_achievements";
+
+  private gameState: GameState;
+  private toastUI: ToastUI | null = null;
+
+  // 업적 id → 달성 시각
+  private unlocked: Record<string, number> = {};
+
+  private readonly onMoveMade = (event: CustomEvent<GameMoveEventDetail>) => {
+    this.evaluate("move", event.detail.model, event.detail.move);
+  };
+  private readonly onCompleted = (
+    event: CustomEvent<GameCompletedEventDetail>
+  ) => {
+    this.evaluate("won", event.detail.model, null);
+  };
+
+  constructor(gameState: GameState) {
+    this.gameState = gameState;
+    this.load();
+
+    document.addEventListener("gameMoveMade", this.onMoveMade);
+    document.addEventListener("gameCompleted", this.onCompleted);
+  }
+
+  public setToastUI(toastUI: ToastUI): void {
+    this.toastUI = toastUI;
+  }
+
+  // 전체 업적과 달성 시각 (갤러리용)
+  public getAchievements(): {
+    definition: AchievementDefinition;
+    unlockedAt: number | null;
+  }[] {
+    return ACHIEVEMENTS.map((definition) => ({
+      definition,
+      unlockedAt: this.unlocked[definition.id] ?? null,
+    }));
+  }
+
+  public getUnlockedCount(): number {
+    return ACHIEVEMENTS.filter((definition) => this.unlocked[definition.id])
+      .length;
+  }
+
+  // 아직 달성하지 못한 업적 중 조건을 만족한 것을 달성 처리
+  private evaluate(
+    trigger: AchievementTrigger,
+    model: KlondikeState,
+    move: MoveData | null
+  ): void {
+    const context: AchievementContext = {
+      trigger,
+      gameState: this.gameState,
+      model,
+      move,
+    };
+
+    const newlyUnlocked = ACHIEVEMENTS.filter(
+      (definition) =>
+        !this.unlocked[definition.id] &&
+        definition.triggers.includes(trigger) &&
+        definition.check(context)
+    );
+    if (newlyUnlocked.length === 0) return;
+
+    const now = Date.now();
+    newlyUnlocked.forEach((definition) => {
+      this.unlocked[definition.id] = now;
+      console.log(`업적 달성: ${definition.title}`);
+    });
+    this.save();
+
+    // 토스트는 하나만 보이므로 한 번에 묶어서 알림
+    if (this.toastUI) {
+      this.toastUI.showSuccess(
+        `🏆 업적 달성! ${newlyUnlocked
+          .map((definition) => `${definition.icon} ${definition.title}`)
+          .join(", ")}`,
+        4000
+      );
+    }
+  }
+
+  private save(): void {
+    Utils.saveToStorage(AchievementTracker.STORAGE_KEY, this.unlocked);
+  }
+
+  private load(): void {
+    this.unlocked =
+      Utils.loadFromStorage<Record<string, number>>(
+        AchievementTracker.STORAGE_KEY
+      ) || {};
+  }
+
+  // 이벤트 구독 해제
+  public destroy(): void {
+    document.removeEventListener("gameMoveMade", this.onMoveMade);
+    document.removeEventListener("gameCompleted", this.onCompleted);
+  }
+}
@@ -0,0 +1,102 @@
+// PixiJS 솔리테어 - 업적 정의 (새 업적은 ACHIEVEMENTS에 추가)
+
+import { CardIds } from "@/engine/CardIds";
+import { GameState } from "@/game/GameState";
+import type { KlondikeState } from "@/engine/KlondikeEngine";
+import type { MoveData } from "@/types/global";
+
+// 업적을 확인하는 시점
+export type AchievementTrigger = "move" | "won";
+
+// 업적 조건을 확인할 때 넘기는 정보
+export interface AchievementContext {
+  trigger: AchievementTrigger;
+  gameState: GameState;
+  model: KlondikeState;
+  move: MoveData | null; // "move"일 때 방금 둔 수
+}
+
+export interface AchievementDefinition {
+  id: string;
+  icon: string;
+  title: string;
+  description: string;
+  triggers: AchievementTrigger[];
+  check: (context: AchievementContext) => boolean;
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: "first_win",
+    icon: "🎉",
+    title: "첫 승리",
+    description: "게임에서 처음으로 승리",
+    triggers: ["won"],
+    check: () => true,
+  },
+  {
+    id: "win_without_undo",
+    icon: "🎯",
+    title: "되돌리기 없이",
+    description: "되돌리기를 한 번도 쓰지 않고 승리",
+    triggers: ["won"],
+    check: ({ gameState }) => gameState.undosUsed === 0,
+  },
+  {
+    id: "win_without_hint",
+    icon: "🧠",
+    title: "혼자 힘으로",
+    description: "힌트를 한 번도 쓰지 않고 승리",
+    triggers: ["won"],
+    check: ({ gameState }) => gameState.hintsUsed === 0,
+  },
+  {
+    id: "fast_draw_three",
+    icon: "⚡",
+    title: "번개 같은 손",
+    description: "3장 뽑기 게임을 3분 안에 승리",
+    triggers: ["won"],
+    check: ({ gameState, model }) =>
+      gameState.variant === "klondike" &&
+      model.drawCount === 3 &&
+      gameState.currentTime < 180,
+  },
+  {
+    id: "win_streak_10",
+    icon: "🔥",
+    title: "10연승",
+    description: "규칙에 상관없이 10게임 연속 승리",
+    triggers: ["won"],
+    check: ({ gameState }) =>
+      gameState.getStats(GameState.ALL_RULES).currentWinStreak >= 10,
+  },
+  {
+    id: "win_without_recycle",
+    icon: "♻️",
+    title: "한 바퀴면 충분해",
+    description: "버린 카드를 다시 덱으로 돌리지 않고 승리",
+    triggers: ["won"],
+    // 되돌린 재활용은 빼고 지금 이동 기록 경로의 재활용만 셈
+    check: ({ gameState }) => gameState.getStockRecycles() === 0,
+  },
+  {
+    id: "king_to_empty_column",
+    icon: "👑",
+    title: "왕의 자리",
+    description: "카드 줄을 비우고 그 자리에 킹 놓기",
+    triggers: ["move"],
+    check: ({ move, model }) => {
+      if (!move || move.to !== "tableau" || move.toIndex === undefined) {
+        return false;
+      }
+      // 빈 칸에 옮긴 카드들이 컬럼 전체가 되고 맨 아래가 킹
+      const column = model.tableau[move.toIndex];
+      return (
+        column !== undefined &&
+        column.length === (move.count ?? 1) &&
+        model.faceDown[move.toIndex] === 0 &&
+        CardIds.rank(column[0]) === "K"
+      );
+    },
+  },
+];
@@ -0,0 +1,77 @@
+// PixiJS 솔리테어 - 베가스 점수 잔고 (누적 잔고와 게임별 기록)
+
+import { Utils } from "@/utils/Utils";
+import type { BankrollEntry } from "@/types/global";
+
+export class Bankroll {
+  // 딜마다 내는 판돈과 Foundation에 올린 카드당 받는 금액
+  static readonly DEAL_COST = 52;
+  static readonly CARD_PAYOUT = 5;
+
+  // 보관하는 최대 기록 수 (넘으면 오래된 기록부터 삭제)
+  static readonly MAX_HISTORY = 200;
+  private static readonly STORAGE_KEY = "solitaire_bankroll";
+
+  private balance: number = 0;
+  private history: BankrollEntry[] = [];
+
+  constructor() {
+    this.load();
+  }
+
+  // 누적 잔고
+  public getBalance(): number {
+    return this.balance;
+  }
+
+  // 오래된 순서의 잔고 기록
+  public getHistory(): BankrollEntry[] {
+    return [...this.history];
+  }
+
+  // 끝난 게임의 손익 정산 (누적하지 않으면 누적 잔고는 그대로)
+  public settle(
+    entry: Omit<BankrollEntry, "balance" | "cumulative">,
+    cumulative: boolean
+  ): BankrollEntry {
+    const settled: BankrollEntry = {
+      ...entry,
+      balance: cumulative ? this.balance + entry.amount : entry.amount,
+      cumulative,
+    };
+    if (cumulative) {
+      this.balance = settled.balance;
+    }
+
+    this.history.push(settled);
+    if (this.history.length > Bankroll.MAX_HISTORY) {
+      this.history.splice(0, this.history.length - Bankroll.MAX_HISTORY);
+    }
+    this.save();
+    return settled;
+  }
+
+  public clear(): void {
+    this.balance = 0;
+    this.history = [];
+    this.save();
+  }
+
+  private save(): void {
+    Utils.saveToStorage(Bankroll.STORAGE_KEY, {
+      balance: this.balance,
+      history: this.history,
+    });
+  }
+
+  private load(): void {
+    const saved = Utils.loadFromStorage<{
+      balance: number;
+      history: BankrollEntry[];
+    }>(Bankroll.STORAGE_KEY);
+    this.balance = saved?.balance ?? 0;
+    this.history = Array.isArray(saved?.history)
+      ? saved.history.slice(-Bankroll.MAX_HISTORY)
+      : [];
+  }
+}
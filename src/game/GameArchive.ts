@@ -0,0 +1,55 @@
+// PixiJS 솔리테어 - 지난 게임 기록 보관함 (TypeScript)
+
+import { Utils } from "@/utils/Utils";
+import type { GameRecord } from "@/types/global";
+
+export class GameArchive {
+  // 보관하는 최대 게임 수 (넘으면 오래된 기록부터 삭제)
+  static readonly MAX_RECORDS = 200;
+  private static readonly STORAGE_KEY = "solitaire_game_archive";
+
+  private records: GameRecord[] = [];
+
+  constructor() {
+    this.load();
+  }
+
+  // 끝난 게임 기록 추가
+  public add(record: GameRecord): void {
+    this.records.push(record);
+    if (this.records.length > GameArchive.MAX_RECORDS) {
+      this.records.splice(0, this.records.length - GameArchive.MAX_RECORDS);
+    }
+    this.save();
+  }
+
+  // 오래된 순서의 전체 기록
+  public getRecords(): GameRecord[] {
+    return [...this.records];
+  }
+
+  // 규칙 구성 키 형식이 바뀐 이전 기록 변환
+  public migrateRuleKeys(migrate: (ruleKey: string) => string): void {
+    this.records = this.records.map((record) => ({
+      ...record,
+      ruleKey: migrate(record.ruleKey),
+    }));
+    this.save();
+  }
+
+  public clear(): void {
+    this.records = [];
+    this.save();
+  }
+
+  private save(): void {
+    Utils.saveToStorage(GameArchive.STORAGE_KEY, this.records);
+  }
+
+  private load(): void {
+    const saved = Utils.loadFromStorage<GameRecord[]>(GameArchive.STORAGE_KEY);
+    this.records = Array.isArray(saved)
+      ? saved.slice(-GameArchive.MAX_RECORDS)
+      : [];
+  }
+}
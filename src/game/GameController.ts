@@ -2,6 +2,7 @@
 
 import * as PIXI from "pixi.js";
 import { CONSTANTS } from "@/core/Constants";
+import { Utils } from "@/utils/Utils";
 import { Deck } from "@/entities/Deck";
 import { CardStack } from "@/entities/CardStack";
 import { GameState } from "@/game/GameState";
@@ -12,14 +13,34 @@ import { UIAnimation } from "@/utils/UIAnimation";
 import { ScoreUI } from "@/UI/ScoreUI";
 import { MenuUI } from "@/UI/MenuUI";
 import { ToastUI } from "@/UI/ToastUI";
+import { HistoryUI } from "@/UI/HistoryUI";
+import { SolutionUI } from "@/UI/SolutionUI";
+import { ArchiveUI } from "@/UI/ArchiveUI";
+import { LeaderboardUI } from "@/UI/LeaderboardUI";
+import { AchievementsUI } from "@/UI/AchievementsUI";
+import { MatchUI } from "@/UI/MatchUI";
+import { AchievementTracker } from "@/game/AchievementTracker";
+import { Match } from "@/game/Match";
+import { SolverClient } from "@/game/SolverClient";
+import { VariantRegistry } from "@/variants/VariantRegistry";
+import type { VariantDefinition } from "@/variants/Variant";
+import {
+  KlondikeEngine,
+  type KlondikeState,
+  type EngineMove,
+  type PileRef,
+} from "@/engine/KlondikeEngine";
+import { CardIds, type CardId } from "@/engine/CardIds";
+import type { SolveResult } from "@/engine/KlondikeSolver";
 import type { GameBoard } from "@/UI/GameBoard";
 import type { Card } from "@/entities/Card";
-import type { CardData, GameStateEventDetail } from "@/types/global";
-
-export interface DealResult {
-  tableau: Card[][];
-  stock: Card[];
-}
+import type {
+  CardData,
+  StackType,
+  GameStateEventDetail,
+  GameMoveEventDetail,
+  GameCompletedEventDetail,
+} from "@/types/global";
 
 export class GameController {
   private app: PIXI.Application;
@@ -33,20 +54,37 @@ export class GameController {
   private uiAnimation: UIAnimation;
   private scoreUI: ScoreUI;
   private menuUI: MenuUI;
+  private historyUI: HistoryUI;
+  private solutionUI: SolutionUI;
+  private archiveUI: ArchiveUI;
+  private leaderboardUI: LeaderboardUI;
+  private achievementsUI: AchievementsUI;
+  private matchUI: MatchUI;
+  private achievementTracker: AchievementTracker;
+  private solverClient: SolverClient;
+  private match: Match; // 여러 딜을 이어 치르는 경기 (한 판의 GameState보다 위)
   private toastUI: ToastUI | null = null;
 
   // 게임 요소들
   private deck: Deck | null = null;
-  public readonly stockStack: CardStack;
-  public readonly wasteStack: CardStack;
-  public readonly foundationStacks: CardStack[];
-  public readonly tableauStacks: CardStack[];
+  private variant: VariantDefinition | null = null;
+  private stacks: CardStack[] = [];
+  private readonly stackScale: number;
 
   // 상태
   private isInitialized: boolean = false;
-  private currentHint: any = null;
+  private currentHint: { card?: Card; stack?: CardStack } | null = null;
+  private selectedCard: Card | null = null; // 짝 맞추기에서 먼저 고른 카드
+  private solutionMoves = new Map<string, EngineMove>();
+  private isHintSearching: boolean = false;
+  private nodeModels = new Map<number, KlondikeState>();
+  private deadEndNodeId: number | null = null;
+  private isMatchRoundRecorded: boolean = false; // 이번 판 점수를 경기 점수표에 기록했는지
   private gameMonitorInterval: number | null = null;
 
+  // 되돌릴 지점을 찾을 때 지점마다 쓰는 솔버 탐색 한도
+  private static readonly GOOD_POINT_MAX_NODES = 20000;
+
   constructor(app: PIXI.Application, gameBoard: GameBoard) {
     this.app = app;
     this.gameBoard = gameBoard;
@@ -59,37 +97,30 @@ export class GameController {
     this.uiAnimation = new UIAnimation(app);
     this.scoreUI = new ScoreUI(this.gameState, this.uiAnimation);
     this.menuUI = new MenuUI(this);
+    this.historyUI = new HistoryUI(this);
+    this.solutionUI = new SolutionUI(this);
+    this.archiveUI = new ArchiveUI(this);
+    this.leaderboardUI = new LeaderboardUI(this);
+    this.scoreUI.setArchiveUI(this.archiveUI);
+    this.scoreUI.setLeaderboardUI(this.leaderboardUI);
+    this.achievementTracker = new AchievementTracker(this.gameState);
+    this.achievementsUI = new AchievementsUI(this.achievementTracker);
+    this.solverClient = new SolverClient();
+    this.match = new Match();
+    this.matchUI = new MatchUI(this.match, () => this.newGame());
 
     // 게임 요소들 초기화
     const screenWidth = window.innerWidth;
     const screenHeight = window.innerHeight;
-    const globalScale = Math.min(screenWidth / 1024, screenHeight / 720);
-
-    // Stock & Waste 스택
-    this.stockStack = new CardStack("stock", 0, globalScale);
-    this.wasteStack = new CardStack("waste", 0, globalScale);
-
-    // Foundation 스택들 (4개)
-    this.foundationStacks = [];
-    for (let i = 0; i < CONSTANTS.GAME.FOUNDATION_PILES; i++) {
-      this.foundationStacks.push(new CardStack("foundation", i, globalScale));
-    }
-
-    // Tableau 스택들 (7개)
-    this.tableauStacks = [];
-    for (let i = 0; i < CONSTANTS.GAME.TABLEAU_COLUMNS; i++) {
-      this.tableauStacks.push(new CardStack("tableau", i, globalScale));
-    }
+    this.stackScale = Math.min(screenWidth / 1024, screenHeight / 720);
 
+    // 스택들은 첫 딜에서 게임 종류에 맞게 생성
     this.init();
   }
 
   private async init(): Promise<void> {
     console.log("게임 컨트롤러 초기화 시작...");
 
-    // 게임 스택들을 게임보드에 추가
-    this.addStacksToGameBoard();
-
     // InputHandler에 GameController 참조 설정
     this.inputHandler.setGameController(this);
 
@@ -113,18 +144,41 @@ export class GameController {
     console.log("게임 컨트롤러 초기화 완료");
   }
 
-  private addStacksToGameBoard(): void {
-    // 게임보드에 스택들 추가
-    this.gameBoard.container.addChild(this.stockStack.container);
-    this.gameBoard.container.addChild(this.wasteStack.container);
+  // 게임 종류가 정한 스택들을 만들어 게임보드에 추가 (기존 스택은 정리)
+  private buildStacks(variant: VariantDefinition): void {
+    this.stacks.forEach((stack) => stack.destroy());
 
-    this.foundationStacks.forEach((stack) => {
-      this.gameBoard.container.addChild(stack.container);
-    });
+    this.variant = variant;
+    this.stacks = variant.piles.flatMap((pile) =>
+      Array.from(
+        { length: pile.count },
+        (_, index) => new CardStack(pile.type, index, this.stackScale, variant)
+      )
+    );
 
-    this.tableauStacks.forEach((stack) => {
+    this.stacks.forEach((stack) => {
       this.gameBoard.container.addChild(stack.container);
     });
+    this.gameBoard.setVariant(variant);
+
+    console.log(`${variant.name} 스택 구성 완료: ${this.stacks.length}개`);
+  }
+
+  // 게임 종류에 따라 없을 수 있는 스택들
+  public get stockStack(): CardStack | null {
+    return this.getStackByRef({ type: "stock", index: 0 });
+  }
+
+  public get wasteStack(): CardStack | null {
+    return this.getStackByRef({ type: "waste", index: 0 });
+  }
+
+  public get foundationStacks(): CardStack[] {
+    return this.stacks.filter((stack) => stack.type === "foundation");
+  }
+
+  public get tableauStacks(): CardStack[] {
+    return this.stacks.filter((stack) => stack.type === "tableau");
   }
 
   // Stock 클릭 이벤트 리스너 설정
@@ -134,10 +188,34 @@ export class GameController {
     });
   }
 
-  // 새 게임 시작
-  public async newGame(): Promise<void> {
-    console.log("새 게임 시작...");
+  // 새 게임 시작 (딜 번호를 주면 해당 딜을 그대로 재현)
+  public async newGame(dealNumber?: number): Promise<void> {
+    const seed =
+      dealNumber ??
+      Utils.randomDealNumber(
+        VariantRegistry.get(this.gameState.settings.variant).maxDealNumber
+      );
+    console.log(`새 게임 시작... (딜 #${seed})`);
+
+    // 경기 중 마치지 않고 넘어가는 판도 남은 카드 수로 점수표에 기록
+    if (this.gameState.moves > 0) {
+      this.recordMatchRound();
+    }
+
+    // 진행 중이던 게임은 중단한 게임으로 기록
+    this.gameState.recordAbandoned();
+
+    // 게임 상태 초기화
+    this.gameState.reset();
+    this.isMatchRoundRecorded = false;
+
+    await this.startDeal(seed);
+
+    console.log("새 게임 시작 완료");
+  }
 
+  // 딜 번호로 덱을 셔플하고 카드를 배치한 뒤 게임 시작
+  private async startDeal(seed: number): Promise<void> {
     // 기존 게임 정리
     this.clearGame();
 
@@ -145,18 +223,43 @@ export class GameController {
     this.gameState.clearSavedGameState();
     this.clearSavedCardState();
 
-    // 게임 상태 초기화
-    this.gameState.reset();
+    this.gameState.dealSeed = seed;
+
+    // 게임 종류가 바뀌었으면 스택 구성을 새로 만듦
+    const variant = VariantRegistry.get(this.gameState.variant);
+    if (variant !== this.variant) {
+      this.buildStacks(variant);
+    }
 
-    // 새 덱 생성 및 셔플
-    this.deck = new Deck();
-    this.deck.shuffle();
+    // 경기로 치르는 게임 종류는 진행 중인 경기를 이어가거나 새 경기 시작
+    if (variant.matchRounds) {
+      this.match.ensure(variant.id, variant.matchRounds);
+    }
+
+    // 3장 뽑기에서는 Waste 맨 위 3장을 펼쳐서 표시
+    this.wasteStack?.setFanLimit(this.gameState.getDrawCount());
 
-    // 카드 딜링
-    const dealResult = this.deck.dealForSolitaire();
+    const options = {
+      drawCount: this.gameState.getDrawCount(),
+      allFaceUp: this.gameState.isThoughtful,
+      suitCount: this.gameState.settings.spiderSuits,
+    };
 
-    // 카드들을 해당 스택에 배치
-    await this.dealCards(dealResult);
+    // 새 덱 생성 및 셔플 (화면에 쓸 카드 객체, 고유한 딜 순서가 있는 게임 종류는 그 순서로)
+    this.deck = new Deck(variant.deckCount, variant.getSuits?.(options));
+    const dealOrder = variant.getDealOrder?.(seed);
+    if (dealOrder) {
+      this.deck.arrange(dealOrder);
+    } else {
+      this.deck.shuffle(seed);
+    }
+
+    // 게임 종류의 딜 모양대로 카드들을 해당 스택에 배치
+    const deal = this.deck.dealForSolitaire(variant, options);
+    deal.piles.forEach((pile) => {
+      const stack = this.getStackByRef(pile.ref);
+      pile.cards.forEach((card) => stack?.addCard(card));
+    });
 
     // 게임 시작
     this.gameState.startGame();
@@ -169,27 +272,70 @@ export class GameController {
       this.checkAndResolveGameBlock();
     }, 1000);
 
-    console.log("새 게임 시작 완료");
     this.dispatchGameStateChanged();
   }
 
-  // 카드 딜링
-  private async dealCards(dealResult: DealResult): Promise<void> {
-    // Stock 카드들
-    dealResult.stock.forEach((card) => {
-      this.stockStack.addCard(card);
-    });
+  // 현재 화면의 스택들로 엔진 모델 생성
+  public getModel(): KlondikeState {
+    return this.gameLogic.createModel(this.getAllStacks());
+  }
 
-    // Tableau 카드들
-    dealResult.tableau.forEach((columnCards, columnIndex) => {
-      columnCards.forEach((card) => {
-        this.tableauStacks[columnIndex].addCard(card);
-      });
-    });
+  // 현재 상태를 솔버로 탐색 (Worker에서 실행되어 렌더링을 막지 않음)
+  public solvePosition(maxNodes?: number): Promise<SolveResult> {
+    return this.solverClient.solve(this.getModel(), maxNodes);
+  }
+
+  // 엔진 스택 참조에 해당하는 화면 스택
+  public getStackByRef(ref: PileRef): CardStack | null {
+    return (
+      this.stacks.find(
+        (stack) => stack.type === ref.type && stack.index === ref.index
+      ) ?? null
+    );
+  }
+
+  // 엔진 이동을 화면 스택에 실행 (기록, 점수, 애니메이션은 기존 처리 경로를 그대로 사용)
+  public applyEngineMove(move: EngineMove): boolean {
+    if (!this.gameState.isPlaying()) return false;
+    if (!KlondikeEngine.isLegalMove(this.getModel(), move)) return false;
+
+    switch (move.type) {
+      case "draw":
+      case "recycle":
+        this.handleStockClick();
+        return true;
+      case "flip": {
+        const card = this.tableauStacks[move.column]?.getTopCard();
+        if (!card) return false;
+        card.flip(true);
+        this.onCardFlipped(card);
+        return true;
+      }
+      case "move": {
+        const fromStack = this.getStackByRef(move.from);
+        const toStack = this.getStackByRef(move.to);
+        if (!fromStack || !toStack) return false;
+
+        const cards = fromStack.cards.slice(-move.count);
+        return move.count > 1
+          ? this.handleMultiCardMove(cards, fromStack, toStack)
+          : this.handleCardMove(cards[0], fromStack, toStack);
+      }
+      default:
+        return false;
+    }
   }
 
   // 기존 게임 정리
   private clearGame(): void {
+    // 이전 딜에 대한 탐색과 승리 수순 정리
+    this.solverClient.cancel();
+    this.solutionMoves.clear();
+    this.solutionUI.hide();
+    this.nodeModels.clear();
+    this.deadEndNodeId = null;
+    this.scoreUI.hideGameOver();
+
     // 기존 덱 정리
     if (this.deck) {
       this.deck.destroy();
@@ -207,16 +353,12 @@ export class GameController {
 
     // 힌트 제거
     this.clearHint();
+    this.clearSelection();
   }
 
   // 모든 스택 반환
   public getAllStacks(): CardStack[] {
-    return [
-      this.stockStack,
-      this.wasteStack,
-      ...this.foundationStacks,
-      ...this.tableauStacks,
-    ];
+    return this.stacks;
   }
 
   // 모든 스택들의 스케일 업데이트 (고정 스케일 사용)
@@ -292,33 +434,39 @@ export class GameController {
     }
   }
 
-  // Stock 클릭 처리
+  // Stock 클릭 처리 (게임 종류에 따라 Waste로 뽑거나 카드 줄마다 딜)
   public handleStockClick(): void {
-    if (!this.gameState.isPlaying()) return;
+    if (this.variant?.stockDealsTo === "tableau") {
+      this.handleStockDeal();
+      return;
+    }
+
+    const stockStack = this.stockStack;
+    const wasteStack = this.wasteStack;
+    if (!this.gameState.isPlaying() || !stockStack || !wasteStack) return;
 
     // Stock 클릭 피드백
-    this.stockStack.onStockClick();
+    stockStack.onStockClick();
 
-    const wasStockEmpty = this.stockStack.isEmpty();
-    const drawnCards = this.gameLogic.drawFromStock(
-      this.stockStack,
-      this.wasteStack
-    );
+    const wasStockEmpty = stockStack.isEmpty();
+    const drawnCards = this.gameLogic.drawFromStock(stockStack, wasteStack);
 
     if (drawnCards.length > 0) {
+      this.dispatchMoveMade();
+
+      // 뽑은 카드를 펼치는 애니메이션은 상태 변경 알림에서 Waste 배치와 함께 처리
       if (wasStockEmpty) {
         // 재활용 애니메이션 (Waste에서 Stock으로)
         this.animateStockRecycle(drawnCards);
-      } else {
-        // 일반 카드 뽑기 애니메이션
-        this.animateStockDraw(drawnCards);
       }
     } else {
       // Stock과 Waste가 모두 비어있을 때 피드백
-      if (this.stockStack.isEmpty() && this.wasteStack.isEmpty()) {
+      if (stockStack.isEmpty() && wasteStack.isEmpty()) {
         if (this.toastUI) {
           this.toastUI.show("더 이상 뽑을 카드가 없어요!", 5000);
         }
+      } else if (stockStack.isEmpty() && this.toastUI) {
+        this.toastUI.show("Stock을 넘길 수 있는 횟수를 다 썼어요!", 3000);
       }
     }
 
@@ -328,15 +476,45 @@ export class GameController {
     this.dispatchGameStateChanged();
   }
 
-  // Stock 카드 뽑기 애니메이션
-  private async animateStockDraw(drawnCards: Card[]): Promise<void> {
-    for (const card of drawnCards) {
-      await this.cardAnimation.animateCardMove(
-        card,
-        card.container.x,
-        card.container.y,
-        CONSTANTS.ANIMATION.DURATION * 0.5
-      );
+  // Stock에서 카드 줄마다 한 장씩 딜 (스파이더)
+  private handleStockDeal(): void {
+    const stockStack = this.stockStack;
+    if (!this.gameState.isPlaying() || !stockStack) return;
+
+    // Stock 클릭 피드백
+    stockStack.onStockClick();
+
+    const previousPositions = this.captureCardPositions();
+    const dealtCards = this.gameLogic.dealStockToTableau(
+      stockStack,
+      this.tableauStacks,
+      this.getAllStacks()
+    );
+
+    if (dealtCards.length > 0) {
+      this.dispatchMoveMade();
+      this.clearCompletedRuns();
+      this.animateCardsFrom(previousPositions);
+
+      if (this.gameLogic.isGameComplete(this.getAllStacks())) {
+        this.onGameComplete();
+      }
+    } else if (!stockStack.isEmpty() && this.toastUI) {
+      this.toastUI.show("빈 카드 줄을 모두 채워야 딜할 수 있어요!", 3000);
+    }
+
+    this.dispatchGameStateChanged();
+  }
+
+  // 완성된 한 벌을 Foundation으로 치움 (치운 이동도 기록에 남음)
+  private clearCompletedRuns(): void {
+    const previousPositions = this.captureCardPositions();
+    if (this.gameLogic.removeCompletedRuns(this.getAllStacks()) === 0) return;
+
+    this.dispatchMoveMade();
+    this.animateCardsFrom(previousPositions);
+    if (this.toastUI) {
+      this.toastUI.show("🎉 한 벌을 완성했어요!", 2000);
     }
   }
 
@@ -372,6 +550,65 @@ export class GameController {
     }
   }
 
+  // 짝 맞추기 카드 선택 처리 (혼자 치울 수 있는 카드나 맞는 짝이면 바로 치움)
+  public handleCardSelect(card: Card): boolean {
+    if (!this.gameState.isPlaying()) return false;
+
+    const allStacks = this.getAllStacks();
+
+    // 되돌리기나 카드 뽑기로 더는 고를 수 없게 된 선택은 취소
+    if (
+      this.selectedCard &&
+      !this.gameLogic.canSelectCard(this.selectedCard, allStacks)
+    ) {
+      this.clearSelection();
+    }
+
+    const selected = this.selectedCard;
+    if (selected === card) {
+      this.clearSelection();
+      return false;
+    }
+
+    const cards =
+      selected && this.gameLogic.canSelectCard(card, allStacks, [selected])
+        ? [selected, card]
+        : [card];
+    if (!this.gameLogic.canSelectCard(card, allStacks, cards)) {
+      this.onFailedMove(card);
+      return false;
+    }
+
+    const previousPositions = this.captureCardPositions();
+    const removed =
+      this.gameLogic.removeCards([card], allStacks) ||
+      (cards.length === 2 && this.gameLogic.removeCards(cards, allStacks));
+
+    if (!removed) {
+      if (!this.gameLogic.canSelectCard(card, allStacks)) {
+        this.onFailedMove(card);
+        return false;
+      }
+
+      // 짝이 맞지 않으면 새로 고른 카드로 선택을 바꿈
+      this.clearSelection();
+      this.selectedCard = card;
+      card.setSelected(true);
+      return false;
+    }
+
+    this.clearSelection();
+    this.animateCardsFrom(previousPositions);
+    this.onSuccessfulMove(card, card.currentStack as CardStack);
+    return true;
+  }
+
+  // 짝 맞추기 선택 해제
+  private clearSelection(): void {
+    this.selectedCard?.setSelected(false);
+    this.selectedCard = null;
+  }
+
   // 다중 카드 이동 처리
   public handleMultiCardMove(
     cards: Card[],
@@ -380,7 +617,14 @@ export class GameController {
   ): boolean {
     if (!this.gameState.isPlaying()) return false;
 
-    if (this.gameLogic.executeMultiCardMove(cards, fromStack, toStack)) {
+    if (
+      this.gameLogic.executeMultiCardMove(
+        cards,
+        fromStack,
+        toStack,
+        this.getAllStacks()
+      )
+    ) {
       // 성공적인 이동
       this.onSuccessfulMove(cards[0], toStack);
       return true;
@@ -393,15 +637,20 @@ export class GameController {
 
   // 카드 뒤집기 처리
   public onCardFlipped(card: Card): void {
-    // 점수 업데이트
-    this.gameState.updateScore();
-
     // 이동 기록
-    this.gameState.recordMove({
+    this.gameLogic.recordMove({
       type: "card_flip",
       card: card.toString(),
+      stack: card.currentStack?.type || "unknown",
+      stackIndex: card.currentStack?.index || 0,
     });
 
+    // 점수 업데이트
+    this.gameState.updateScore();
+    this.dispatchMoveMade();
+
+    this.checkAndResolveGameBlock();
+
     this.dispatchGameStateChanged();
   }
 
@@ -410,33 +659,107 @@ export class GameController {
     card: Card,
     toStack: CardStack
   ): Promise<void> {
-    // 점수 업데이트
-    if (toStack.type === "foundation") {
-      this.gameState.addToFoundation(card);
-    }
+    // Foundation 카드 수와 점수는 GameLogic에서 이미 반영됨
+    this.dispatchMoveMade();
+    this.clearCompletedRuns();
 
     // 게임 완료 확인
-    if (this.gameLogic.isGameComplete(this.foundationStacks)) {
+    if (this.gameLogic.isGameComplete(this.getAllStacks())) {
       this.onGameComplete();
+    } else {
+      this.checkAndResolveGameBlock();
     }
 
     this.dispatchGameStateChanged();
   }
 
-  // 게임 막힘 확인 및 해결 (사용자에게 알림만)
+  // 게임 막힘 확인 - 더 진행할 수 없으면 게임 오버 대화상자 표시
   private checkAndResolveGameBlock(): void {
-    const allStacks = this.getAllStacks();
+    if (!this.gameState.isPlaying()) return;
+    if (!this.gameLogic.isGameBlocked(this.getAllStacks())) return;
+
+    // 같은 지점에서는 한 번만 알림
+    const nodeId = this.gameState.getCurrentNodeId();
+    if (this.deadEndNodeId === nodeId) return;
+    this.deadEndNodeId = nodeId;
+
+    // 경기로 치르는 게임 종류는 판을 마치고 점수표를 보여줌
+    if (this.variant?.matchRounds) {
+      this.gameState.recordLoss();
+      if (this.recordMatchRound()) {
+        this.matchUI.show();
+      }
+      return;
+    }
 
-    if (this.gameLogic.isGameBlocked(allStacks)) {
-      console.log("게임이 막혔습니다.");
+    console.log("게임이 막혔습니다.");
+
+    this.scoreUI.showGameOver({
+      canUndo: this.gameState.canUndo(),
+      onUndo: () => {
+        this.undoToLastGoodPoint();
+      },
+      onRestart: () => {
+        this.gameState.recordLoss();
+        this.restartGame();
+      },
+      onNewGame: () => {
+        this.gameState.recordLoss();
+        this.newGame();
+      },
+    });
+  }
 
-      if (this.toastUI) {
-        this.toastUI.show(
-          "게임이 막혔어요! 힌트를 사용하거나 새 게임을 시작해보세요.",
-          5000
+  // 아직 이길 수 있었던 마지막 지점으로 되돌리기
+  public async undoToLastGoodPoint(): Promise<void> {
+    if (this.toastUI) {
+      this.toastUI.show("되돌릴 지점을 찾고 있어요...", 2000);
+    }
+
+    const nodeId = await this.findLastGoodNode();
+    if (nodeId === null) return;
+
+    if (this.jumpToHistoryNode(nodeId) && this.toastUI) {
+      this.toastUI.show(
+        nodeId === 0
+          ? "처음 배치로 되돌렸어요."
+          : "아직 이길 수 있던 지점으로 되돌렸어요.",
+        3000
+      );
+    }
+  }
+
+  // 현재 지점의 조상 중 솔버가 패배로 판정하지 않은 가장 가까운 지점
+  private async findLastGoodNode(): Promise<number | null> {
+    const nodes = new Map(
+      this.gameState.getHistoryNodes().map((node) => [node.id, node])
+    );
+    let node = nodes.get(this.gameState.getCurrentNodeId());
+
+    while (node && node.parentId !== null) {
+      node = nodes.get(node.parentId);
+      if (!node) break;
+
+      const model = this.nodeModels.get(node.id);
+      if (!model || KlondikeEngine.isDeadEnd(model)) continue;
+      if (this.solutionMoves.has(this.getModelKey(model))) return node.id;
+
+      try {
+        const result = await this.solverClient.solve(
+          model,
+          GameController.GOOD_POINT_MAX_NODES
         );
+        if (result.status === "winnable") {
+          this.cacheSolution(model, result.moves);
+        }
+        // 한도 안에 결론이 나지 않은 지점도 아직 희망이 있는 것으로 봄
+        if (result.status !== "unwinnable") return node.id;
+      } catch (error) {
+        return null; // 새 게임 등으로 탐색이 취소됨
       }
     }
+
+    return 0;
   }
 
   // 실패한 이동 처리
@@ -457,23 +780,70 @@ export class GameController {
 
     // 게임 상태 업데이트
     this.gameState.completeGame();
+    document.dispatchEvent(
+      new CustomEvent("gameCompleted", {
+        detail: { model: this.getModel() },
+      } as CustomEventInit<GameCompletedEventDetail>)
+    );
 
     // 저장된 게임 상태 삭제
     this.gameState.clearSavedGameState();
     this.clearSavedCardState();
 
-    // 완료 UI 표시
-    this.scoreUI.showGameComplete();
+    // 완료 UI 표시 (경기로 치르는 게임 종류는 점수표)
+    if (this.recordMatchRound()) {
+      this.matchUI.show();
+    } else {
+      this.scoreUI.showGameComplete();
+    }
+  }
+
+  // 경기로 치르는 게임 종류의 이번 판 점수를 점수표에 기록 (판마다 한 번만)
+  private recordMatchRound(): boolean {
+    const variant = this.variant;
+    if (
+      !variant?.matchRounds ||
+      !variant.getRoundScore ||
+      this.isMatchRoundRecorded
+    ) {
+      return false;
+    }
+
+    const board = this.gameLogic.createBoard(this.getAllStacks());
+    this.match.recordRound({
+      dealSeed: this.gameState.dealSeed,
+      score: variant.getRoundScore(board),
+      cleared: variant.isWon(board),
+      finishedAt: Date.now(),
+    });
+    this.isMatchRoundRecorded = true;
+    return true;
   }
 
   // 되돌리기
   public undoLastMove(): boolean {
     if (!this.gameState.canUndo()) return false;
 
+    const nodeId = this.gameState.getCurrentNodeId();
     const lastMove = this.gameState.undoLastMove();
     if (lastMove) {
-      // 실제 이동 되돌렸습니다.
-      this.gameLogic.undoMove(lastMove);
+      this.clearHint();
+      this.clearSelection();
+
+      // 되돌리기 전 카드 위치를 기억해 두었다가 애니메이션 시작점으로 사용
+      const previousPositions = this.captureCardPositions();
+
+      if (!this.gameLogic.undoMove(lastMove, this.getAllStacks())) {
+        console.warn("이동을 되돌리지 못했습니다:", lastMove);
+        // 보드가 그대로이므로 이동 기록 위치도 원래대로 돌려놓음
+        this.gameState.setCurrentNode(nodeId);
+        this.gameState.undosUsed--;
+        this.dispatchGameStateChanged();
+        return false;
+      }
+
+      this.gameState.updateScore();
+      this.animateCardsFrom(previousPositions);
 
       console.log("이동을 되돌렸습니다.");
       this.dispatchGameStateChanged();
@@ -483,8 +853,130 @@ export class GameController {
     return false;
   }
 
-  // 힌트 표시
-  public showHint(): void {
+  // 다시 실행
+  public redoLastMove(): boolean {
+    if (!this.gameState.canRedo()) return false;
+
+    const nodeId = this.gameState.getCurrentNodeId();
+    const nextMove = this.gameState.redoMove();
+    if (nextMove) {
+      this.clearHint();
+      this.clearSelection();
+
+      const previousPositions = this.captureCardPositions();
+
+      if (!this.gameLogic.redoMove(nextMove, this.getAllStacks())) {
+        console.warn("이동을 다시 실행하지 못했습니다:", nextMove);
+        // 보드가 그대로이므로 이동 기록 위치도 원래대로 돌려놓음
+        this.gameState.setCurrentNode(nodeId);
+        this.dispatchGameStateChanged();
+        return false;
+      }
+
+      this.gameState.updateScore();
+      this.animateCardsFrom(previousPositions);
+
+      console.log("이동을 다시 실행했습니다.");
+      this.dispatchGameStateChanged();
+      return true;
+    }
+
+    return false;
+  }
+
+  // 이동 기록 트리의 특정 지점으로 이동
+  public jumpToHistoryNode(nodeId: number): boolean {
+    if (!this.gameState.isPlaying() || !this.gameState.settings.allowUndo) {
+      return false;
+    }
+
+    const path = this.gameState.getPathToNode(nodeId);
+    if (!path) return false;
+
+    this.clearHint();
+    this.clearSelection();
+
+    const previousPositions = this.captureCardPositions();
+    const allStacks = this.getAllStacks();
+
+    // 공통 조상까지 되돌린 뒤 목표 가지를 따라 다시 실행
+    const undone = path.undo.every((move) =>
+      this.gameLogic.undoMove(move, allStacks)
+    );
+    const redone =
+      undone &&
+      path.redo.every((move) => this.gameLogic.redoMove(move, allStacks));
+
+    if (!redone) {
+      console.error("이동 기록 지점으로 이동하지 못했습니다:", nodeId);
+      this.dispatchGameStateChanged();
+      return false;
+    }
+
+    if (path.undo.length > 0) {
+      this.gameState.undosUsed++;
+    }
+    this.gameState.setCurrentNode(nodeId);
+    this.gameState.updateScore();
+    this.animateCardsFrom(previousPositions);
+
+    console.log(`이동 기록 #${nodeId} 지점으로 이동했습니다.`);
+    this.dispatchGameStateChanged();
+    return true;
+  }
+
+  // 이동 기록 패널 표시
+  public showHistoryPanel(): void {
+    this.historyUI.show();
+  }
+
+  // 모든 카드의 현재 글로벌 위치 저장
+  private captureCardPositions(): Map<Card, PIXI.Point> {
+    const positions = new Map<Card, PIXI.Point>();
+    this.getAllStacks().forEach((stack) => {
+      stack.cards.forEach((card) => {
+        positions.set(card, card.container.getGlobalPosition());
+      });
+    });
+    return positions;
+  }
+
+  // 저장된 위치에서 현재 자리로 카드들을 이동시키는 애니메이션
+  private async animateCardsFrom(
+    previousPositions: Map<Card, PIXI.Point>
+  ): Promise<void> {
+    const animations: Promise<void>[] = [];
+
+    previousPositions.forEach((from, card) => {
+      const parent = card.container.parent;
+      if (!parent) return;
+
+      const current = card.container.getGlobalPosition();
+      if (Math.abs(current.x - from.x) < 1 && Math.abs(current.y - from.y) < 1)
+        return;
+
+      // 이전 위치(새 스택 기준 좌표)에서 출발
+      const targetX = card.container.x;
+      const targetY = card.container.y;
+      const start = parent.toLocal(from);
+      card.container.x = start.x;
+      card.container.y = start.y;
+
+      animations.push(
+        this.cardAnimation.animateCardMove(
+          card,
+          targetX,
+          targetY,
+          CONSTANTS.ANIMATION.DURATION
+        )
+      );
+    });
+
+    await Promise.all(animations);
+  }
+
+  // 힌트 표시 - 솔버가 찾은 승리 수순의 첫 수를 안내
+  public async showHint(): Promise<void> {
     if (!this.gameState.isPlaying() || !this.gameState.settings.hintEnabled) {
       if (this.toastUI) {
         this.toastUI.show(
@@ -498,11 +990,190 @@ export class GameController {
     // 기존 힌트 제거
     this.clearHint();
 
+    // 솔버가 없는 게임 종류는 한 수 힌트만 제공
+    if (this.variant?.engine !== "klondike") {
+      this.gameState.hintsUsed++;
+      this.showHeuristicHint();
+      return;
+    }
+
+    const model = this.getModel();
+    const stateKey = this.getModelKey(model);
+
+    // 이미 찾아 둔 승리 수순 위에 있으면 바로 안내
+    const cachedMove = this.solutionMoves.get(stateKey);
+    if (cachedMove) {
+      this.gameState.hintsUsed++;
+      this.presentHint(cachedMove);
+      this.showSolutionLine();
+      return;
+    }
+
+    if (this.isHintSearching) return;
+    this.isHintSearching = true;
+
+    if (this.toastUI) {
+      this.toastUI.show("💡 이길 수 있는 수를 찾고 있어요...", 2000);
+    }
+
+    let result: SolveResult;
+    try {
+      result = await this.solverClient.solve(model);
+    } catch (error) {
+      // 새 게임 등으로 탐색이 취소됨
+      return;
+    } finally {
+      this.isHintSearching = false;
+    }
+
+    // 탐색하는 동안 판이 바뀌었으면 결과를 버림
+    if (stateKey !== this.getModelKey(this.getModel())) return;
+
+    // 탐색 중에 다시 누른 힌트는 세지 않고, 결과를 보여줄 때 한 번만 셈
+    this.gameState.hintsUsed++;
+
+    switch (result.status) {
+      case "winnable":
+        this.cacheSolution(model, result.moves);
+        this.presentHint(result.moves[0]);
+        this.showSolutionLine();
+        break;
+      case "unwinnable":
+        console.log("승리 수순이 없습니다.");
+        if (this.toastUI) {
+          this.toastUI.show(
+            "💡 이 상태에서는 이길 수 있는 수가 없어요. 되돌리기나 새 게임을 해보세요.",
+            5000
+          );
+        }
+        break;
+      case "unknown":
+        // 탐색 한도 안에 결론이 나지 않으면 기존 한 수 힌트로 대신함
+        this.showHeuristicHint();
+        break;
+    }
+  }
+
+  // 승리 수순의 각 상태에서 둘 수를 저장 (같은 수순을 따라가면 다시 탐색하지 않음)
+  private cacheSolution(start: KlondikeState, moves: EngineMove[]): void {
+    let state: KlondikeState | null = start;
+
+    for (const move of moves) {
+      if (!state) break;
+      this.solutionMoves.set(this.getModelKey(state), move);
+      state = KlondikeEngine.applyMove(state, move);
+    }
+  }
+
+  // 현재 배치에서 이어지는 찾아 둔 승리 수순 (수순에서 벗어났으면 빈 목록)
+  public getSolutionLine(): { start: KlondikeState; moves: EngineMove[] } {
+    const start = this.getModel();
+    const moves: EngineMove[] = [];
+    const seen = new Set<string>();
+    let state: KlondikeState | null = start;
+
+    while (state) {
+      const key = this.getModelKey(state);
+      const move = this.solutionMoves.get(key);
+      if (!move || seen.has(key)) break;
+      seen.add(key);
+      moves.push(move);
+      state = KlondikeEngine.applyMove(state, move);
+    }
+
+    return { start, moves };
+  }
+
+  // 모두 공개 모드에서는 숨은 카드가 없으므로 승리까지의 전체 수순을 보여줌
+  private showSolutionLine(): void {
+    if (this.gameState.isThoughtful) {
+      this.solutionUI.show();
+    }
+  }
+
+  private getModelKey(model: KlondikeState): string {
+    return JSON.stringify(model);
+  }
+
+  // 엔진 이동을 화면의 힌트로 표시
+  private presentHint(move: EngineMove): void {
+    let message = "";
+
+    switch (move.type) {
+      case "draw":
+        message = "💡 힌트: 카드 뭉치를 클릭해서 카드를 뽑아보세요!";
+        this.stockStack?.showHintHighlight();
+        this.currentHint = { stack: this.stockStack ?? undefined };
+        break;
+      case "recycle":
+        message =
+          "💡 힌트: 카드 뭉치를 클릭해서 버린 카드들을 다시 사용해보세요!";
+        this.stockStack?.showHintHighlight();
+        this.currentHint = { stack: this.stockStack ?? undefined };
+        break;
+      case "flip": {
+        const card = this.tableauStacks[move.column]?.getTopCard();
+        if (!card) return;
+        message = `💡 힌트: ${move.column + 1}번째 줄의 뒷면 카드를 뒤집어보세요!`;
+        this.cardAnimation.animateHint(card);
+        this.currentHint = { card };
+        break;
+      }
+      case "move": {
+        const fromStack = this.getStackByRef(move.from);
+        const toStack = this.getStackByRef(move.to);
+        if (!fromStack || !toStack) return;
+
+        const card = fromStack.cards[fromStack.cards.length - move.count];
+        const targetName =
+          toStack.type === "foundation"
+            ? "위쪽 정리 영역"
+            : `아래쪽 ${toStack.index + 1}번째 카드 줄`;
+        const cardLabel =
+          move.count > 1
+            ? `${card.toString()}부터 ${move.count}장을`
+            : `${card.toString()}를`;
+        message = `💡 힌트: ${cardLabel} ${targetName}으로 옮겨보세요!`;
+
+        this.cardAnimation.animateHint(card);
+        toStack.showHintHighlight();
+        this.currentHint = { card, stack: toStack };
+        break;
+      }
+    }
+
+    console.log(message);
+    if (this.toastUI) {
+      this.toastUI.show(message, 5000);
+    }
+  }
+
+  // 탐색으로 결론이 나지 않을 때의 한 수 힌트
+  private showHeuristicHint(): void {
+    // 짝 맞추기 게임 종류는 함께 치울 수 있는 카드들을 먼저 안내
+    const removable = this.gameLogic.findRemovableCards(this.getAllStacks())[0];
+    if (removable) {
+      this.currentHint = { card: removable[0] };
+      removable.forEach((card) => this.cardAnimation.animateHint(card));
+
+      const labels = removable.map((card) => card.toString());
+      const message =
+        labels.length > 1
+          ? `💡 힌트: ${labels[0]}와 ${labels[1]}를 짝지어 치워보세요!`
+          : `💡 힌트: ${labels[0]}를 치워보세요!`;
+      console.log(message);
+
+      if (this.toastUI) {
+        this.toastUI.show(message, 5000);
+      }
+      return;
+    }
+
     // 새 힌트 찾기
     const bestMove = this.gameLogic.suggestBestMove(this.getAllStacks());
 
     if (bestMove) {
-      this.currentHint = bestMove;
+      this.currentHint = { card: bestMove.card, stack: bestMove.toStack };
 
       if (bestMove.type === "draw_stock") {
         // Stock 클릭 힌트
@@ -514,9 +1185,9 @@ export class GameController {
         }
 
         // Stock 스택 하이라이트
-        this.stockStack.onDropZoneEnter();
+        this.stockStack?.onDropZoneEnter();
         setTimeout(() => {
-          this.stockStack.onDropZoneLeave();
+          this.stockStack?.onDropZoneLeave();
         }, 2000);
       } else if (bestMove.type === "recycle_waste") {
         // Waste 재활용 힌트
@@ -529,13 +1200,14 @@ export class GameController {
         }
 
         // Stock 스택 하이라이트
-        this.stockStack.onDropZoneEnter();
+        this.stockStack?.onDropZoneEnter();
         setTimeout(() => {
-          this.stockStack.onDropZoneLeave();
+          this.stockStack?.onDropZoneLeave();
         }, 2000);
       } else if (bestMove.card) {
         // 카드 이동 힌트
         this.cardAnimation.animateHint(bestMove.card);
+        bestMove.toStack?.showHintHighlight();
 
         // 친근한 메시지로 변환
         let targetName = "";
@@ -573,6 +1245,7 @@ export class GameController {
       if (this.currentHint.card) {
         this.currentHint.card.container.tint = 0xffffff;
       }
+      this.currentHint.stack?.clearHintHighlight();
       this.currentHint = null;
     }
   }
@@ -638,36 +1311,124 @@ export class GameController {
     this.dispatchGameStateChanged();
   }
 
-  // 게임 재시작 (같은 덱으로)
-  public restartGame(): void {
-    if (this.deck) {
-      // 덱을 원래 순서로 리셋
-      this.deck.reset();
+  // 게임 포기 - 패배로 기록하고 새 게임 시작
+  public async concedeGame(): Promise<void> {
+    if (!this.gameState.isPlaying()) return;
 
-      // 기존 게임 정리
-      this.clearGame();
+    this.gameState.recordLoss();
+    await this.newGame();
+  }
 
-      // 같은 덱으로 다시 딜링
-      this.deck.shuffle(); // 같은 패턴을 원하면 이 라인 제거
-      const dealResult = this.deck.dealForSolitaire();
-      this.dealCards(dealResult);
+  // 통계 창 표시
+  public showStats(): void {
+    this.scoreUI.showStatsModal();
+  }
 
-      // 게임 상태 초기화
-      this.gameState.reset();
-      this.gameState.startGame();
+  // 업적 갤러리 표시
+  public showAchievements(): void {
+    this.achievementsUI.show();
+  }
 
-      this.dispatchGameStateChanged();
+  // 지난 게임의 딜을 같은 게임 종류와 뽑기 규칙으로 다시 플레이
+  public async replayDeal(
+    dealNumber: number,
+    drawCount: number,
+    variant: string = this.gameState.variant,
+    ruleKey?: string
+  ): Promise<void> {
+    if (this.gameState.settings.drawCount !== drawCount) {
+      this.gameState.updateSetting("drawCount", drawCount);
+    }
+    if (this.gameState.settings.variant !== variant) {
+      this.gameState.updateSetting("variant", variant);
     }
+    // 스파이더는 무늬 수가 같아야 같은 딜 번호로 같은 배치가 나옴
+    const suitCount = ruleKey ? GameState.getRuleSuitCount(ruleKey) : null;
+    if (
+      suitCount !== null &&
+      this.gameState.settings.spiderSuits !== suitCount
+    ) {
+      this.gameState.updateSetting("spiderSuits", suitCount);
+    }
+    await this.newGame(dealNumber);
+  }
+
+  // 게임 재시작 (같은 딜 번호로 처음 배치와 Stock 순서를 그대로 재현)
+  public async restartGame(): Promise<void> {
+    const seed = this.gameState.dealSeed;
+    if (seed === null) {
+      console.warn("딜 번호가 없어 재시작할 수 없습니다.");
+      return;
+    }
+
+    console.log(`딜 #${seed} 재시작...`);
+
+    // 진행 상태만 초기화하고 같은 딜로 기록 유지 (중단한 게임으로 기록하지 않음)
+    this.gameState.reset({ keepDeal: true });
+
+    await this.startDeal(seed);
+
+    console.log("게임 재시작 완료");
   }
 
   // 게임 상태 변경 이벤트 발생
   private dispatchGameStateChanged(): void {
+    // Stock 넘기기 횟수 표시 (재활용한 횟수 + 1번째로 넘기는 중)
+    this.stockStack?.setStockPasses(
+      this.gameState.getStockRecycles() + 1,
+      this.wasteStack ? this.gameState.getStockPassLimit() : null
+    );
+
+    // 경기로 치르는 게임 종류는 홀 번호, 이번 판 점수, 합계 표시
+    const variant = this.variant;
+    this.scoreUI.updateMatchInfo(
+      variant?.matchRounds && variant.getRoundScore
+        ? {
+            round: this.isMatchRoundRecorded
+              ? this.match.getRounds().length
+              : this.match.getCurrentRound(),
+            totalRounds: this.match.getTotalRounds(),
+            score: variant.getRoundScore(
+              this.gameLogic.createBoard(this.getAllStacks())
+            ),
+            total: this.match.getTotal(),
+          }
+        : null
+    );
+
+    // 모두 공개 모드에서 Stock에 남은 카드 순서 표시
+    this.scoreUI.updateStockPreview(
+      this.stockStack?.cards.map((card) => CardIds.fromCard(card)) ?? [],
+      this.gameState.getDrawCount()
+    );
+
+    // 카드를 뽑거나 맨 위 카드를 옮기면 Waste 펼침을 다시 맞춤
+    if (this.wasteStack) {
+      this.cardAnimation.animateStackLayout(this.wasteStack);
+    }
+
+    // 막힘 시 되돌릴 지점을 찾을 수 있도록 기록 지점별 배치 보관
+    if (this.gameState.isGameStarted && this.variant?.engine === "klondike") {
+      this.nodeModels.set(this.gameState.getCurrentNodeId(), this.getModel());
+    }
+
     const event = new CustomEvent("gameStateChanged", {
       detail: this.gameState.getGameInfo(),
     } as CustomEventInit<GameStateEventDetail>);
     document.dispatchEvent(event);
   }
 
+  // 새로 둔 수를 이동 후 배치와 함께 알림 (업적 등에서 사용)
+  private dispatchMoveMade(): void {
+    const move = this.gameState.getCurrentMove();
+    if (!move) return;
+
+    const event = new CustomEvent("gameMoveMade", {
+      detail: { move, model: this.getModel() },
+    } as CustomEventInit<GameMoveEventDetail>);
+    document.dispatchEvent(event);
+  }
+
   // 게임 정보 반환
   public getGameInfo(): {
     gameState: any;
@@ -724,6 +1485,38 @@ export class GameController {
       this.menuUI.destroy();
     }
 
+    if (this.archiveUI) {
+      this.archiveUI.destroy();
+    }
+
+    if (this.leaderboardUI) {
+      this.leaderboardUI.destroy();
+    }
+
+    if (this.achievementsUI) {
+      this.achievementsUI.destroy();
+    }
+
+    if (this.solutionUI) {
+      this.solutionUI.destroy();
+    }
+
+    if (this.matchUI) {
+      this.matchUI.destroy();
+    }
+
+    if (this.achievementTracker) {
+      this.achievementTracker.destroy();
+    }
+
+    if (this.historyUI) {
+      this.historyUI.destroy();
+    }
+
+    if (this.solverClient) {
+      this.solverClient.destroy();
+    }
+
     // 게임 스택들 정리
     this.getAllStacks().forEach((stack) => {
       if (stack && stack.destroy) {
@@ -737,6 +1530,7 @@ export class GameController {
   // 토스트 UI 설정
   public setToastUI(toastUI: ToastUI): void {
     this.toastUI = toastUI;
+    this.achievementTracker.setToastUI(toastUI);
   }
 
   // 카드 상태 저장
@@ -745,30 +1539,16 @@ export class GameController {
       return null;
 
     const cardState: SavedCardState = {
-      stock: this.stockStack.cards.map((card) => ({
-        suit: card.suit,
-        rank: card.rank,
-        faceUp: card.faceUp,
-      })),
-      waste: this.wasteStack.cards.map((card) => ({
-        suit: card.suit,
-        rank: card.rank,
-        faceUp: card.faceUp,
-      })),
-      foundations: this.foundationStacks.map((stack) =>
-        stack.cards.map((card) => ({
-          suit: card.suit,
-          rank: card.rank,
-          faceUp: card.faceUp,
-        }))
-      ),
-      tableaus: this.tableauStacks.map((stack) =>
-        stack.cards.map((card) => ({
+      variant: this.gameState.variant,
+      stacks: this.getAllStacks().map((stack) => ({
+        type: stack.type,
+        index: stack.index,
+        cards: stack.cards.map((card) => ({
           suit: card.suit,
           rank: card.rank,
           faceUp: card.faceUp,
-        }))
-      ),
+        })),
+      })),
     };
 
     try {
@@ -792,46 +1572,41 @@ export class GameController {
       // 기존 카드들 정리
       this.clearGame();
 
-      // 새 덱 생성
-      this.deck = new Deck();
-
-      // 저장된 카드 상태로 덱 재구성
-      // Stock 카드들
-      cardState.stock.forEach((cardInfo) => {
-        const card = this.deck!.findCard(cardInfo.suit, cardInfo.rank);
-        if (card) {
-          card.faceUp = cardInfo.faceUp ?? false;
-          this.stockStack.addCard(card);
-        }
-      });
-
-      // Waste 카드들
-      cardState.waste.forEach((cardInfo) => {
-        const card = this.deck!.findCard(cardInfo.suit, cardInfo.rank);
-        if (card) {
-          card.faceUp = cardInfo.faceUp ?? false;
-          this.wasteStack.addCard(card);
-        }
-      });
+      // 저장한 게임 종류의 스택 구성으로 맞춤
+      const variant = VariantRegistry.get(
+        cardState.variant ?? VariantRegistry.DEFAULT_ID
+      );
+      if (variant !== this.variant) {
+        this.buildStacks(variant);
+      }
+      this.wasteStack?.setFanLimit(this.gameState.getDrawCount());
+
+      // 게임 종류의 덱 생성 (무늬 수는 저장된 카드에서 셈)
+      const savedCards = cardState.stacks.flatMap((stack) => stack.cards);
+      this.deck = new Deck(
+        variant.deckCount,
+        variant.getSuits?.({
+          drawCount: this.gameState.getDrawCount(),
+          allFaceUp: this.gameState.isThoughtful,
+          suitCount: new Set(savedCards.map((card) => card.suit)).size,
+        })
+      );
 
-      // Foundation 카드들
-      cardState.foundations.forEach((foundationCards, index) => {
-        foundationCards.forEach((cardInfo) => {
-          const card = this.deck!.findCard(cardInfo.suit, cardInfo.rank);
-          if (card) {
-            card.faceUp = cardInfo.faceUp ?? false;
-            this.foundationStacks[index].addCard(card);
-          }
-        });
+      // 같은 카드가 여러 장인 게임 종류(스파이더)는 아직 쓰지 않은 카드와 하나씩 짝지음
+      const unused = new Map<CardId, Card[]>();
+      this.deck.getCards().forEach((card) => {
+        const id = CardIds.fromCard(card);
+        unused.set(id, [...(unused.get(id) ?? []), card]);
       });
 
-      // Tableau 카드들
-      cardState.tableaus.forEach((tableauCards, index) => {
-        tableauCards.forEach((cardInfo) => {
-          const card = this.deck!.findCard(cardInfo.suit, cardInfo.rank);
-          if (card) {
+      // 저장된 카드 상태로 덱 재구성
+      cardState.stacks.forEach((savedStack) => {
+        const stack = this.getStackByRef(savedStack);
+        savedStack.cards.forEach((cardInfo) => {
+          const card = unused.get(CardIds.fromCard(cardInfo))?.shift();
+          if (card && stack) {
             card.faceUp = cardInfo.faceUp ?? false;
-            this.tableauStacks[index].addCard(card);
+            stack.addCard(card);
           }
         });
       });
@@ -887,8 +1662,6 @@ export class GameController {
 
 // 저장된 카드 상태 인터페이스
 interface SavedCardState {
-  stock: CardData[];
-  waste: CardData[];
-  foundations: CardData[][];
-  tableaus: CardData[][];
+  variant?: string;
+  stacks: { type: StackType; index: number; cards: CardData[] }[];
 }
@@ -2,9 +2,13 @@
 
 import { CONSTANTS } from "@/core/Constants";
 import { Utils } from "@/utils/Utils";
+import { KlondikeEngine, type KlondikeState } from "@/engine/KlondikeEngine";
+import { CardIds } from "@/engine/CardIds";
 import type { GameState } from "@/game/GameState";
 import type { Card } from "@/entities/Card";
 import type { CardStack } from "@/entities/CardStack";
+import { VariantRegistry } from "@/variants/VariantRegistry";
+import type { VariantBoard, VariantDefinition } from "@/variants/Variant";
 import type { MoveData } from "@/types/global";
 
 export interface BestMove {
@@ -37,107 +41,107 @@ export class GameLogic {
     this.gameState = gameState;
   }
 
-  // 카드 이동 유효성 검사
-  public validateMove(
-    card: Card,
-    fromStack: CardStack,
-    toStack: CardStack
-  ): boolean {
-    if (!card || !toStack) return false;
-
-    // 게임이 진행 중이 아니면 이동 불가
-    if (!this.gameState.isPlaying()) return false;
+  // 이동 기록 (표준 점수 규칙으로 얻는 점수를 함께 저장해 되돌리기에도 맞춤)
+  public recordMove(
+    moveData: Omit<MoveData, "timestamp" | "moveNumber" | "points">
+  ): void {
+    this.gameState.recordMove({
+      ...moveData,
+      points: this.getStandardPoints(moveData),
+    });
+  }
 
-    // 뒷면 카드는 이동 불가
-    if (!card.faceUp) return false;
-
-    switch (toStack.type) {
-      case "foundation":
-        return this.canMoveToFoundation(card, toStack);
-      case "tableau":
-        return this.canMoveToTableau(card, toStack);
-      case "waste":
-        return false; // Waste로는 직접 이동 불가
-      case "stock":
-        return false; // Stock으로는 직접 이동 불가
+  // 표준(Windows) 점수: 이동 종류별 점수
+  public getStandardPoints(
+    moveData: Omit<MoveData, "timestamp" | "moveNumber" | "points">
+  ): number {
+    switch (moveData.type) {
+      case "card_move":
+      case "multi_card_move":
+        if (moveData.to === "foundation") {
+          return moveData.from === "foundation" ? 0 : 10;
+        }
+        if (moveData.to === "tableau") {
+          if (moveData.from === "waste") return 5;
+          if (moveData.from === "foundation") return -15;
+        }
+        return 0;
+      case "card_flip":
+        return 5;
+      case "waste_to_stock":
+        return this.gameState.getDrawCount() === 1 ? -100 : 0;
       default:
-        return false;
+        return 0;
     }
   }
 
-  // Foundation으로 이동 가능 여부
-  private canMoveToFoundation(card: Card, foundationStack: CardStack): boolean {
-    const foundationCards = foundationStack.cards;
-
-    if (foundationCards.length === 0) {
-      // 빈 Foundation에는 Ace만 올 수 있음
-      return card.getValue() === 1;
-    }
-
-    const topCard = foundationCards[foundationCards.length - 1];
-
-    // 같은 수트이고 연속된 값이어야 함
-    return (
-      card.suit === topCard.suit && card.getValue() === topCard.getValue() + 1
-    );
+  // 현재 게임의 종류 정의 (쌓기와 옮기기 규칙)
+  private get variant(): VariantDefinition {
+    return VariantRegistry.get(this.gameState.variant);
   }
 
-  // Tableau로 이동 가능 여부
-  private canMoveToTableau(card: Card, tableauStack: CardStack): boolean {
-    const tableauCards = tableauStack.cards;
-
-    if (tableauCards.length === 0) {
-      // 빈 Tableau에는 King만 올 수 있음
-      return card.getValue() === 13;
-    }
-
-    const topCard = tableauCards[tableauCards.length - 1];
+  // 카드 이동 유효성 검사 (스택 맨 위 카드 한 장)
+  public validateMove(
+    card: Card,
+    fromStack: CardStack,
+    toStack: CardStack
+  ): boolean {
+    if (!card || !toStack) return false;
+    return this.isLegalMove([card], fromStack, toStack);
+  }
 
-    // 뒷면 카드 위에는 올 수 없음
-    if (!topCard.faceUp) return false;
+  // 여러 카드 이동 유효성 검사 (게임 종류의 한 번에 옮길 수 있는 장수 제한 포함)
+  public validateMultiCardMove(
+    cards: Card[],
+    fromStack: CardStack,
+    toStack: CardStack,
+    allStacks: CardStack[]
+  ): boolean {
+    if (!this.isLegalMove(cards, fromStack, toStack)) return false;
 
-    // 다른 색깔이고 1 작은 값이어야 함
-    return (
-      card.isRed() !== topCard.isRed() &&
-      card.getValue() === topCard.getValue() - 1
+    const maxMoveSize = this.variant.getMaxMoveSize?.(
+      this.createBoard(allStacks),
+      toStack.ref
     );
+    return maxMoveSize === undefined || cards.length <= maxMoveSize;
   }
 
-  // 여러 카드 이동 유효성 검사 (Tableau에서만 가능)
-  public validateMultiCardMove(
+  // 스택 맨 위의 카드들을 함께 옮길 수 있는지
+  private isLegalMove(
     cards: Card[],
     fromStack: CardStack,
     toStack: CardStack
   ): boolean {
     if (!cards || cards.length === 0) return false;
-    if (fromStack.type !== "tableau") return false;
-
-    // 카드들이 연속적이고 번갈아가는 색상인지 확인
-    if (!this.areCardsSequential(cards)) return false;
-
-    // 첫 번째 카드가 이동 가능한지 확인
-    return this.validateMove(cards[0], fromStack, toStack);
-  }
 
-  // 카드들이 연속적인지 확인
-  private areCardsSequential(cards: Card[]): boolean {
-    if (cards.length <= 1) return true;
-
-    for (let i = 1; i < cards.length; i++) {
-      const prevCard = cards[i - 1];
-      const currCard = cards[i];
+    // 게임이 진행 중이 아니면 이동 불가
+    if (!this.gameState.isPlaying()) return false;
 
-      // 모든 카드가 앞면이어야 함
-      if (!prevCard.faceUp || !currCard.faceUp) return false;
+    const topCards = fromStack.cards.slice(-cards.length);
+    if (topCards.some((card, index) => card !== cards[index])) return false;
 
-      // 색상이 번갈아가야 함
-      if (prevCard.isRed() === currCard.isRed()) return false;
+    return this.canPickUp(cards, fromStack) && this.canBuild(cards, toStack);
+  }
 
-      // 값이 연속적으로 감소해야 함
-      if (prevCard.getValue() !== currCard.getValue() + 1) return false;
-    }
+  // 카드들을 함께 집어 들 수 있는지 (뒷면 카드는 옮길 수 없음)
+  private canPickUp(cards: Card[], fromStack: CardStack): boolean {
+    return (
+      cards.every((card) => card.faceUp) &&
+      this.variant.canPickUp(
+        cards.map((c) => CardIds.fromCard(c)),
+        fromStack.ref
+      )
+    );
+  }
 
-    return true;
+  // 카드들을 스택 맨 위에 올릴 수 있는지
+  private canBuild(cards: Card[], toStack: CardStack): boolean {
+    return this.variant.canBuild(
+      cards.map((c) => CardIds.fromCard(c)),
+      toStack.ref,
+      toStack.cards.map((c) => CardIds.fromCard(c)),
+      toStack.cards.filter((c) => !c.faceUp).length
+    );
   }
 
   // Stock에서 카드 뽑기
@@ -148,7 +152,7 @@ export class GameLogic {
     }
 
     const drawCount = Math.min(
-      this.gameState.settings.drawCount,
+      this.gameState.getDrawCount(),
       stockStack.getCardCount()
     );
 
@@ -164,7 +168,7 @@ export class GameLogic {
     }
 
     // 이동 기록
-    this.gameState.recordMove({
+    this.recordMove({
       type: "stock_to_waste",
       cards: drawnCards.map((c) => c.toString()),
       count: drawnCards.length,
@@ -180,17 +184,23 @@ export class GameLogic {
   ): Card[] {
     if (wasteStack.isEmpty()) return [];
 
+    // Stock을 넘길 수 있는 횟수를 다 쓴 경우
+    if (!this.gameState.canRecycleStock()) {
+      console.log("더 이상 Stock을 넘길 수 없습니다.");
+      return [];
+    }
+
     const cards = [...wasteStack.cards].reverse(); // 순서 뒤집기
 
     // Waste의 모든 카드를 Stock으로 이동
     cards.forEach((card) => {
       wasteStack.removeCard(card);
-      card.flip(false); // 뒷면으로
+      card.flip(this.gameState.isThoughtful); // 뒷면으로 (모두 공개 모드는 앞면)
       stockStack.addCard(card);
     });
 
     // 이동 기록
-    this.gameState.recordMove({
+    this.recordMove({
       type: "waste_to_stock",
       count: cards.length,
     });
@@ -201,6 +211,170 @@ export class GameLogic {
     return cards;
   }
 
+  // Stock에서 카드 줄마다 한 장씩 딜 (스파이더)
+  public dealStockToTableau(
+    stockStack: CardStack,
+    tableauStacks: CardStack[],
+    allStacks: CardStack[]
+  ): Card[] {
+    if (stockStack.isEmpty()) return [];
+
+    // 빈 카드 줄이 있으면 딜할 수 없는 게임 종류
+    const canDeal = this.variant.canDealStock?.(this.createBoard(allStacks));
+    if (canDeal === false) {
+      console.log("빈 카드 줄이 있어 딜할 수 없습니다.");
+      return [];
+    }
+
+    const dealtCards: Card[] = [];
+    for (const tableauStack of tableauStacks) {
+      const card = stockStack.getTopCard();
+      if (!card) break;
+      stockStack.removeCard(card);
+      card.flip(true);
+      tableauStack.addCard(card);
+      dealtCards.push(card);
+    }
+
+    // 이동 기록
+    this.recordMove({
+      type: "stock_to_tableau",
+      cards: dealtCards.map((c) => c.toString()),
+      count: dealtCards.length,
+    });
+
+    return dealtCards;
+  }
+
+  // 카드 줄 맨 위의 완성된 한 벌을 빈 Foundation으로 치움 (치운 벌 수 반환)
+  public removeCompletedRuns(allStacks: CardStack[]): number {
+    const isCompletedRun = this.variant.isCompletedRun;
+    if (!isCompletedRun) return 0;
+
+    const runLength = CONSTANTS.GAME.CARDS_PER_SUIT;
+    let removed = 0;
+
+    allStacks
+      .filter((s) => s.type === "tableau")
+      .forEach((tableauStack) => {
+        const cards = tableauStack.cards.slice(-runLength);
+        const foundationStack = allStacks.find(
+          (s) => s.type === "foundation" && s.isEmpty()
+        );
+        if (
+          !foundationStack ||
+          !cards.every((card) => card.faceUp) ||
+          !isCompletedRun(cards.map((c) => CardIds.fromCard(c)))
+        ) {
+          return;
+        }
+
+        cards.forEach((card) => {
+          tableauStack.removeCard(card);
+          foundationStack.addCard(card);
+        });
+
+        // 이동 기록 (게임을 끝내는 마지막 이동의 점수도 포함되도록 완료 확인 전에 기록)
+        this.recordMove({
+          type: "multi_card_move" as const,
+          cards: cards.map((c) => c.toString()),
+          count: cards.length,
+          from: tableauStack.type,
+          to: foundationStack.type,
+          fromIndex: tableauStack.index,
+          toIndex: foundationStack.index,
+        });
+        cards.forEach((card) => this.gameState.addToFoundation(card));
+
+        console.log(`${tableauStack.index + 1}번째 줄의 완성된 한 벌을 치움`);
+        removed++;
+      });
+
+    return removed;
+  }
+
+  // 짝 맞추기로 고를 수 있는 카드인지 (removing 카드들은 함께 치워지는 것으로 보고 덮임 판단)
+  public canSelectCard(
+    card: Card,
+    allStacks: CardStack[],
+    removing: Card[] = []
+  ): boolean {
+    const stack = card.currentStack;
+    if (!this.variant.canPair || !stack || !card.faceUp) return false;
+    if (stack.type === "stock" || stack.type === "foundation") return false;
+    if (stack.getTopCard() !== card) return false;
+
+    const board = this.createBoard(allStacks);
+    removing.forEach((other) => {
+      const otherStack = other.currentStack;
+      if (other !== card && otherStack?.getTopCard() === other) {
+        board[otherStack.type]?.[otherStack.index]?.pop();
+      }
+    });
+
+    return !this.variant.isCovered?.(board, stack.ref);
+  }
+
+  // 고른 카드들을 함께 Foundation으로 치움 (짝 맞추기)
+  public removeCards(cards: Card[], allStacks: CardStack[]): boolean {
+    const foundationStack = allStacks.find((s) => s.type === "foundation");
+    if (!foundationStack || !this.gameState.isPlaying()) return false;
+    if (cards.length === 0 || new Set(cards).size !== cards.length) {
+      return false;
+    }
+    if (
+      !cards.every((card) => this.canSelectCard(card, allStacks, cards)) ||
+      !this.variant.canPair?.(cards.map((c) => CardIds.fromCard(c)))
+    ) {
+      return false;
+    }
+
+    const sources = cards.map((card) => card.currentStack as CardStack);
+    cards.forEach((card, index) => {
+      sources[index].removeCard(card);
+      foundationStack.addCard(card);
+    });
+
+    // 이동 기록 (게임을 끝내는 마지막 이동의 점수도 포함되도록 완료 확인 전에 기록)
+    this.recordMove({
+      type: "pair_removal",
+      cards: cards.map((c) => c.toString()),
+      count: cards.length,
+      to: foundationStack.type,
+      toIndex: foundationStack.index,
+      sources: sources.map((s) => ({ type: s.type, index: s.index })),
+    });
+
+    cards.forEach((card) => this.gameState.addToFoundation(card));
+
+    console.log(
+      `${cards.map((c) => c.toString()).join(", ")} 카드를 짝 맞춰 치움`
+    );
+    return true;
+  }
+
+  // 지금 함께 치울 수 있는 카드 묶음들 (짝 맞추기 힌트용)
+  public findRemovableCards(allStacks: CardStack[]): Card[][] {
+    if (!this.variant.canPair) return [];
+
+    const candidates = allStacks
+      .map((stack) => stack.getTopCard())
+      .filter((card): card is Card => card !== null);
+    const canRemove = (cards: Card[]) =>
+      cards.every((card) => this.canSelectCard(card, allStacks, cards)) &&
+      this.variant.canPair?.(cards.map((c) => CardIds.fromCard(c))) === true;
+
+    const removable: Card[][] = [];
+    candidates.forEach((card, i) => {
+      if (canRemove([card])) removable.push([card]);
+      candidates.slice(i + 1).forEach((other) => {
+        if (canRemove([card, other])) removable.push([card, other]);
+      });
+    });
+
+    return removable;
+  }
+
   // 자동으로 뒤집을 수 있는 카드 찾기
   public findCardsToFlip(tableauStacks: CardStack[]): Card[] {
     const cardsToFlip: Card[] = [];
@@ -222,7 +396,7 @@ export class GameLogic {
     card.flip(true);
 
     // 이동 기록
-    this.gameState.recordMove({
+    this.recordMove({
       type: "card_flip",
       card: card.toString(),
       stack: card.currentStack?.type || "unknown",
@@ -273,7 +447,7 @@ export class GameLogic {
 
       // 어떤 Foundation에든 올릴 수 있는지 확인
       foundationStacks.forEach((foundationStack) => {
-        if (this.canMoveToFoundation(topCard, foundationStack)) {
+        if (this.canBuild([topCard], foundationStack)) {
           completableCards.push({
             card: topCard,
             fromStack: stack,
@@ -306,23 +480,40 @@ export class GameLogic {
 
     // Tableau 간 이동 가능한 카드들
     const tableauStacks = allStacks.filter((s) => s.type === "tableau");
+    const singleCardStacks = allStacks.filter(
+      (s) => s.type === "waste" || s.type === "cell"
+    );
+
+    // Waste와 빈 칸(프리셀)에서 Tableau로
+    singleCardStacks.forEach((fromStack) => {
+      const topCard = fromStack.getTopCard();
+      if (!topCard || !topCard.faceUp) return;
+
+      tableauStacks.forEach((tableauStack) => {
+        if (this.canBuild([topCard], tableauStack)) {
+          hints.push({
+            card: topCard,
+            fromStack: fromStack,
+            toStack: tableauStack,
+          });
+        }
+      });
+    });
+
+    // Tableau에서 Waste로 (골프)
     const wasteStack = allStacks.find((s) => s.type === "waste");
+    tableauStacks.forEach((fromStack) => {
+      const topCard = fromStack.getTopCard();
+      if (!wasteStack || !topCard || !topCard.faceUp) return;
 
-    // Waste에서 Tableau로
-    if (wasteStack && !wasteStack.isEmpty()) {
-      const wasteTopCard = wasteStack.getTopCard();
-      if (wasteTopCard && wasteTopCard.faceUp) {
-        tableauStacks.forEach((tableauStack) => {
-          if (this.canMoveToTableau(wasteTopCard, tableauStack)) {
-            hints.push({
-              card: wasteTopCard,
-              fromStack: wasteStack,
-              toStack: tableauStack,
-            });
-          }
+      if (this.canBuild([topCard], wasteStack)) {
+        hints.push({
+          card: topCard,
+          fromStack: fromStack,
+          toStack: wasteStack,
         });
       }
-    }
+    });
 
     // Tableau 간 이동
     tableauStacks.forEach((fromStack) => {
@@ -332,7 +523,7 @@ export class GameLogic {
       tableauStacks.forEach((toStack) => {
         if (fromStack === toStack) return;
 
-        if (this.canMoveToTableau(topCard, toStack)) {
+        if (this.canBuild([topCard], toStack)) {
           hints.push({
             card: topCard,
             fromStack: fromStack,
@@ -358,13 +549,9 @@ export class GameLogic {
     return hints;
   }
 
-  // 게임 완료 여부 확인
-  public isGameComplete(foundationStacks: CardStack[]): boolean {
-    const totalCards = foundationStacks.reduce(
-      (sum, stack) => sum + stack.getCardCount(),
-      0
-    );
-    return totalCards === CONSTANTS.GAME.TOTAL_CARDS;
+  // 게임 완료 여부 확인 (승리 조건은 게임 종류가 결정)
+  public isGameComplete(allStacks: CardStack[]): boolean {
+    return this.variant.isWon(this.createBoard(allStacks));
   }
 
   // 최적의 이동 제안 (게임 막힘 방지)
@@ -384,8 +571,12 @@ export class GameLogic {
         };
       }
 
-      // Waste 재활용 제안
-      if (wasteStack && !wasteStack.isEmpty()) {
+      // Waste 재활용 제안 (Stock을 넘길 수 있는 횟수가 남았을 때만)
+      if (
+        wasteStack &&
+        !wasteStack.isEmpty() &&
+        this.gameState.canRecycleStock()
+      ) {
         return {
           type: "recycle_waste" as const,
           fromStack: wasteStack,
@@ -577,22 +768,13 @@ export class GameLogic {
     fromStack.removeCard(card);
     toStack.addCard(card);
 
-    // Foundation으로 이동한 경우 점수 업데이트
-    if (toStack.type === "foundation") {
-      const isGameComplete = this.gameState.addToFoundation(card);
-      if (isGameComplete) {
-        console.log("게임 완료!");
-        return true;
-      }
-    }
-
     // Foundation에서 제거한 경우
     if (fromStack.type === "foundation") {
       this.gameState.removeFromFoundation(card);
     }
 
-    // 이동 기록
-    this.gameState.recordMove({
+    // 이동 기록 (게임을 끝내는 마지막 이동의 점수도 포함되도록 완료 확인 전에 기록)
+    this.recordMove({
       type: "card_move" as const,
       card: card.toString(),
       from: fromStack.type,
@@ -601,6 +783,15 @@ export class GameLogic {
       toIndex: toStack.index || 0,
     });
 
+    // Foundation으로 이동한 경우 점수 업데이트
+    if (toStack.type === "foundation") {
+      const isGameComplete = this.gameState.addToFoundation(card);
+      if (isGameComplete) {
+        console.log("게임 완료!");
+        return true;
+      }
+    }
+
     console.log(
       `카드 ${card.toString()}가 ${fromStack.type}에서 ${toStack.type}로 이동됨`
     );
@@ -611,9 +802,10 @@ export class GameLogic {
   public executeMultiCardMove(
     cards: Card[],
     fromStack: CardStack,
-    toStack: CardStack
+    toStack: CardStack,
+    allStacks: CardStack[]
   ): boolean {
-    if (!this.validateMultiCardMove(cards, fromStack, toStack)) {
+    if (!this.validateMultiCardMove(cards, fromStack, toStack, allStacks)) {
       console.log("유효하지 않은 다중 카드 이동입니다.");
       return false;
     }
@@ -625,7 +817,7 @@ export class GameLogic {
     });
 
     // 이동 기록
-    this.gameState.recordMove({
+    this.recordMove({
       type: "multi_card_move" as const,
       cards: cards.map((c) => c.toString()),
       count: cards.length,
@@ -642,61 +834,341 @@ export class GameLogic {
   }
 
   // 이동 되돌리기
-  public undoMove(moveData: MoveData): boolean {
+  public undoMove(moveData: MoveData, allStacks: CardStack[]): boolean {
     if (!moveData) return false;
 
     switch (moveData.type) {
       case "card_move":
-        return this.undoCardMove(moveData);
       case "multi_card_move":
-        return this.undoMultiCardMove(moveData);
+        return this.undoCardMove(moveData, allStacks);
       case "stock_to_waste":
-        return this.undoStockToWaste(moveData);
+        return this.undoStockToWaste(moveData, allStacks);
       case "waste_to_stock":
-        return this.undoWasteToStock(moveData);
+        return this.undoWasteToStock(moveData, allStacks);
+      case "stock_to_tableau":
+        return this.undoStockToTableau(moveData, allStacks);
+      case "pair_removal":
+        return this.undoPairRemoval(moveData, allStacks);
       case "card_flip":
-        return this.undoCardFlip(moveData);
+        return this.undoCardFlip(moveData, allStacks);
       default:
         console.log("알 수 없는 이동 타입:", moveData.type);
         return false;
     }
   }
 
-  // 카드 이동 되돌리기
-  private undoCardMove(moveData: MoveData): boolean {
-    // TODO: 실제 스택 참조를 통한 되돌리기 구현
-    console.log("카드 이동 되돌리기:", moveData);
-    return true;
+  // 되돌린 이동 다시 실행
+  public redoMove(moveData: MoveData, allStacks: CardStack[]): boolean {
+    if (!moveData) return false;
+
+    switch (moveData.type) {
+      case "card_move":
+      case "multi_card_move":
+        return this.redoCardMove(moveData, allStacks);
+      case "stock_to_waste":
+        return this.redoStockToWaste(moveData, allStacks);
+      case "waste_to_stock":
+        return this.redoWasteToStock(moveData, allStacks);
+      case "stock_to_tableau":
+        return this.redoStockToTableau(moveData, allStacks);
+      case "pair_removal":
+        return this.redoPairRemoval(moveData, allStacks);
+      case "card_flip":
+        return this.redoCardFlip(moveData, allStacks);
+      default:
+        console.log("알 수 없는 이동 타입:", moveData.type);
+        return false;
+    }
   }
 
-  // 다중 카드 이동 되돌리기
-  private undoMultiCardMove(moveData: MoveData): boolean {
-    // TODO: 실제 스택 참조를 통한 되돌리기 구현
-    console.log("다중 카드 이동 되돌리기:", moveData);
-    return true;
+  // 카드 이동 되돌리기 (단일/다중)
+  private undoCardMove(moveData: MoveData, allStacks: CardStack[]): boolean {
+    const fromStack = this.findStack(
+      allStacks,
+      moveData.from,
+      moveData.fromIndex
+    );
+    const toStack = this.findStack(allStacks, moveData.to, moveData.toIndex);
+    if (!fromStack || !toStack) {
+      console.warn("되돌릴 스택을 찾을 수 없습니다:", moveData);
+      return false;
+    }
+
+    return this.transferRecordedCards(
+      toStack,
+      fromStack,
+      this.getRecordedCardNames(moveData)
+    );
+  }
+
+  // 카드 이동 다시 실행 (단일/다중)
+  private redoCardMove(moveData: MoveData, allStacks: CardStack[]): boolean {
+    const fromStack = this.findStack(
+      allStacks,
+      moveData.from,
+      moveData.fromIndex
+    );
+    const toStack = this.findStack(allStacks, moveData.to, moveData.toIndex);
+    if (!fromStack || !toStack) {
+      console.warn("다시 실행할 스택을 찾을 수 없습니다:", moveData);
+      return false;
+    }
+
+    return this.transferRecordedCards(
+      fromStack,
+      toStack,
+      this.getRecordedCardNames(moveData)
+    );
   }
 
   // Stock to Waste 되돌리기
-  private undoStockToWaste(moveData: MoveData): boolean {
-    // TODO: 실제 스택 참조를 통한 되돌리기 구현
-    console.log("Stock to Waste 되돌리기:", moveData);
-    return true;
+  private undoStockToWaste(
+    moveData: MoveData,
+    allStacks: CardStack[]
+  ): boolean {
+    // 마지막에 뽑힌 카드부터 Stock 맨 위로 되돌려 원래 순서 유지
+    return this.transferStockCards(
+      this.findStack(allStacks, "waste"),
+      this.findStack(allStacks, "stock"),
+      moveData.count ?? moveData.cards?.length ?? 0,
+      this.gameState.isThoughtful
+    );
+  }
+
+  // Stock to Waste 다시 실행
+  private redoStockToWaste(
+    moveData: MoveData,
+    allStacks: CardStack[]
+  ): boolean {
+    return this.transferStockCards(
+      this.findStack(allStacks, "stock"),
+      this.findStack(allStacks, "waste"),
+      moveData.count ?? moveData.cards?.length ?? 0,
+      true
+    );
   }
 
   // Waste to Stock 되돌리기
-  private undoWasteToStock(moveData: MoveData): boolean {
-    // TODO: 실제 스택 참조를 통한 되돌리기 구현
-    console.log("Waste to Stock 되돌리기:", moveData);
-    return true;
+  private undoWasteToStock(
+    moveData: MoveData,
+    allStacks: CardStack[]
+  ): boolean {
+    // 재활용 시 순서가 뒤집혔으므로 Stock 맨 위부터 꺼내면 원래 Waste 순서가 됨
+    return this.transferStockCards(
+      this.findStack(allStacks, "stock"),
+      this.findStack(allStacks, "waste"),
+      moveData.count ?? 0,
+      true
+    );
+  }
+
+  // Waste to Stock 다시 실행
+  private redoWasteToStock(
+    moveData: MoveData,
+    allStacks: CardStack[]
+  ): boolean {
+    return this.transferStockCards(
+      this.findStack(allStacks, "waste"),
+      this.findStack(allStacks, "stock"),
+      moveData.count ?? 0,
+      this.gameState.isThoughtful
+    );
+  }
+
+  // Stock에서 카드 줄로 딜 되돌리기 (마지막 줄부터 Stock 맨 위로)
+  private undoStockToTableau(
+    moveData: MoveData,
+    allStacks: CardStack[]
+  ): boolean {
+    const stockStack = this.findStack(allStacks, "stock");
+    const tableauStacks = allStacks
+      .filter((s) => s.type === "tableau")
+      .slice(0, moveData.count ?? 0)
+      .reverse();
+    if (!stockStack || tableauStacks.length === 0) return false;
+
+    return tableauStacks.every((tableauStack) =>
+      this.transferStockCards(
+        tableauStack,
+        stockStack,
+        1,
+        this.gameState.isThoughtful
+      )
+    );
+  }
+
+  // Stock에서 카드 줄로 딜 다시 실행
+  private redoStockToTableau(
+    moveData: MoveData,
+    allStacks: CardStack[]
+  ): boolean {
+    const stockStack = this.findStack(allStacks, "stock");
+    const tableauStacks = allStacks
+      .filter((s) => s.type === "tableau")
+      .slice(0, moveData.count ?? 0);
+    if (!stockStack || tableauStacks.length === 0) return false;
+
+    return tableauStacks.every((tableauStack) =>
+      this.transferStockCards(stockStack, tableauStack, 1, true)
+    );
+  }
+
+  // 짝 맞춰 치운 카드 되돌리기 (나중에 치운 카드부터 원래 스택으로)
+  private undoPairRemoval(moveData: MoveData, allStacks: CardStack[]): boolean {
+    const foundationStack = this.findStack(
+      allStacks,
+      moveData.to,
+      moveData.toIndex
+    );
+    const cardNames = this.getRecordedCardNames(moveData);
+    const sources = moveData.sources ?? [];
+    if (!foundationStack || sources.length !== cardNames.length) return false;
+
+    return sources
+      .map((source, index) => ({ source, name: cardNames[index] }))
+      .reverse()
+      .every(({ source, name }) => {
+        const stack = this.findStack(allStacks, source.type, source.index);
+        return (
+          stack !== null &&
+          this.transferRecordedCards(foundationStack, stack, [name])
+        );
+      });
+  }
+
+  // 짝 맞춰 치우기 다시 실행
+  private redoPairRemoval(moveData: MoveData, allStacks: CardStack[]): boolean {
+    const foundationStack = this.findStack(
+      allStacks,
+      moveData.to,
+      moveData.toIndex
+    );
+    const cardNames = this.getRecordedCardNames(moveData);
+    const sources = moveData.sources ?? [];
+    if (!foundationStack || sources.length !== cardNames.length) return false;
+
+    return sources.every((source, index) => {
+      const stack = this.findStack(allStacks, source.type, source.index);
+      return (
+        stack !== null &&
+        this.transferRecordedCards(stack, foundationStack, [cardNames[index]])
+      );
+    });
   }
 
   // 카드 뒤집기 되돌리기
-  private undoCardFlip(moveData: MoveData): boolean {
-    // TODO: 실제 카드 참조를 통한 되돌리기 구현
-    console.log("카드 뒤집기 되돌리기:", moveData);
+  private undoCardFlip(moveData: MoveData, allStacks: CardStack[]): boolean {
+    return this.setRecordedCardFace(moveData, allStacks, false);
+  }
+
+  // 카드 뒤집기 다시 실행
+  private redoCardFlip(moveData: MoveData, allStacks: CardStack[]): boolean {
+    return this.setRecordedCardFace(moveData, allStacks, true);
+  }
+
+  // 기록된 카드들을 source 맨 위에서 target으로 옮김 (Foundation 카드 수 포함)
+  private transferRecordedCards(
+    source: CardStack,
+    target: CardStack,
+    cardNames: string[]
+  ): boolean {
+    if (cardNames.length === 0) return false;
+
+    const cards = source.cards.slice(-cardNames.length);
+    const matches =
+      cards.length === cardNames.length &&
+      cards.every((card, i) => card.toString() === cardNames[i]);
+    if (!matches) {
+      console.warn("기록된 카드들이 스택 맨 위에 없습니다:", cardNames);
+      return false;
+    }
+
+    cards.forEach((card) => {
+      source.removeCard(card);
+      target.addCard(card);
+
+      if (source.type === "foundation") {
+        this.gameState.removeFromFoundation(card);
+      }
+      if (target.type === "foundation") {
+        this.gameState.addToFoundation(card);
+      }
+    });
+
+    console.log(
+      `${cards.length}장의 카드가 ${source.type}에서 ${target.type}로 복원됨`
+    );
     return true;
   }
 
+  // Stock과 다른 스택 사이에서 맨 위 카드부터 한 장씩 옮김
+  private transferStockCards(
+    source: CardStack | null,
+    target: CardStack | null,
+    count: number,
+    faceUp: boolean
+  ): boolean {
+    if (!source || !target || count <= 0 || source.getCardCount() < count) {
+      console.warn("Stock 카드를 옮길 수 없습니다:", count);
+      return false;
+    }
+
+    for (let i = 0; i < count; i++) {
+      const card = source.getTopCard();
+      if (!card) break;
+      source.removeCard(card);
+      card.flip(faceUp);
+      target.addCard(card);
+    }
+
+    console.log(
+      `${count}장의 카드가 ${source.type}에서 ${target.type}로 복원됨`
+    );
+    return true;
+  }
+
+  // 기록된 카드의 앞/뒷면 설정
+  private setRecordedCardFace(
+    moveData: MoveData,
+    allStacks: CardStack[],
+    faceUp: boolean
+  ): boolean {
+    const stack = this.findStack(
+      allStacks,
+      moveData.stack,
+      moveData.stackIndex
+    );
+    // 여러 벌의 덱에서는 같은 카드가 더 있을 수 있으므로 맨 위쪽부터 찾음
+    const card = stack?.cards
+      .slice()
+      .reverse()
+      .find((c) => c.toString() === moveData.card);
+    if (!card || card.faceUp === faceUp) {
+      console.warn("뒤집을 카드를 찾을 수 없습니다:", moveData);
+      return false;
+    }
+
+    card.flip(faceUp);
+    return true;
+  }
+
+  // 이동 기록에 담긴 카드 이름 목록
+  private getRecordedCardNames(moveData: MoveData): string[] {
+    if (moveData.cards && moveData.cards.length > 0) return moveData.cards;
+    return moveData.card ? [moveData.card] : [];
+  }
+
+  // 기록된 스택 타입과 인덱스로 스택 찾기
+  private findStack(
+    allStacks: CardStack[],
+    type?: string,
+    index: number = 0
+  ): CardStack | null {
+    return (
+      allStacks.find((s) => s.type === type && (s.index || 0) === index) || null
+    );
+  }
+
   // 자동 완성 실행
   public executeAutoComplete(allStacks: CardStack[]): boolean {
     const completableCards = this.findAutoCompletableCards(allStacks);
@@ -751,20 +1223,49 @@ export class GameLogic {
     return analysis;
   }
 
-  // 게임이 막혔는지 확인
-  public isGameBlocked(allStacks: CardStack[]): boolean {
-    const hints = this.findHints(allStacks);
-    const stockStack = allStacks.find((s) => s.type === "stock");
-    const wasteStack = allStacks.find((s) => s.type === "waste");
+  // 스택들로 종류별 카드 배열 생성 (스택 번호 순서)
+  public createBoard(allStacks: CardStack[]): VariantBoard {
+    const board: VariantBoard = {};
+    [...allStacks]
+      .sort((a, b) => a.index - b.index)
+      .forEach((stack) => {
+        const piles = board[stack.type] ?? [];
+        piles.push(stack.cards.map((card) => CardIds.fromCard(card)));
+        board[stack.type] = piles;
+      });
+    return board;
+  }
 
-    // Stock에서 뽑을 수 있는 카드가 있는지 확인
-    const canDrawFromStock = stockStack && !stockStack.isEmpty();
+  // 스택들로 엔진 모델 생성
+  public createModel(allStacks: CardStack[]): KlondikeState {
+    const ids = (stack: CardStack) =>
+      stack.cards.map((card) => CardIds.fromCard(card));
+    const byType = (type: string) =>
+      allStacks
+        .filter((s) => s.type === type)
+        .sort((a, b) => a.index - b.index);
+    const tableauStacks = byType("tableau");
 
-    // Waste에서 뽑을 수 있는 카드가 있는지 확인
-    const canDrawFromWaste = wasteStack && !wasteStack.isEmpty();
+    return {
+      stock: byType("stock").flatMap(ids),
+      waste: byType("waste").flatMap(ids),
+      foundations: byType("foundation").map(ids),
+      tableau: tableauStacks.map(ids),
+      faceDown: tableauStacks.map(
+        (stack) => stack.cards.filter((card) => !card.faceUp).length
+      ),
+      drawCount: this.gameState.getDrawCount(),
+      recyclesLeft: this.gameState.getRecyclesLeft(),
+    };
+  }
 
-    // 가능한 이동이 없고, Stock에서도 뽑을 수 없으면 게임 막힘
-    return hints.length === 0 && !canDrawFromStock && !canDrawFromWaste;
+  // 게임이 막혔는지 확인 (Stock을 계속 돌려도 진전이 되는 이동이 없음)
+  public isGameBlocked(allStacks: CardStack[]): boolean {
+    // 솔버가 없는 게임 종류는 판이 끝나는 조건이 있을 때만 (골프 등)
+    if (this.variant.engine !== "klondike") {
+      return this.variant.isOver?.(this.createBoard(allStacks)) ?? false;
+    }
+    return KlondikeEngine.isDeadEnd(this.createModel(allStacks));
   }
 
   // 게임 막힘 해결 시도
@@ -856,9 +1357,21 @@ export class GameLogic {
           const cardsToMove = stack.getCardsFromIndex(
             stack.cards.indexOf(card)
           );
-          if (this.validateMultiCardMove(cardsToMove, stack, targetStack)) {
+          if (
+            this.validateMultiCardMove(
+              cardsToMove,
+              stack,
+              targetStack,
+              allStacks
+            )
+          ) {
             console.log(`막힌 카드 ${card.toString()} 해결 시도`);
-            this.executeMultiCardMove(cardsToMove, stack, targetStack);
+            this.executeMultiCardMove(
+              cardsToMove,
+              stack,
+              targetStack,
+              allStacks
+            );
           }
         }
       });
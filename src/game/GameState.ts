@@ -2,7 +2,20 @@
 
 import { CONSTANTS } from "@/core/Constants";
 import { Utils } from "@/utils/Utils";
-import type { MoveData, GameStats, GameSettings } from "@/types/global";
+import { GameArchive } from "@/game/GameArchive";
+import { Leaderboard } from "@/game/Leaderboard";
+import { Bankroll } from "@/game/Bankroll";
+import { VariantRegistry } from "@/variants/VariantRegistry";
+import type {
+  MoveData,
+  GameStats,
+  GameSettings,
+  GameResult,
+  GameRecord,
+  StatsByRule,
+  LeaderboardPlacement,
+  ScoringMode,
+} from "@/types/global";
 import type { Card } from "@/entities/Card";
 
 export interface GameInfo {
@@ -15,8 +28,28 @@ export interface GameInfo {
   foundationCards: number;
   progress: number;
   canUndo: boolean;
+  canRedo: boolean;
 }
 
+// 이동 기록 트리의 노드 (루트는 move가 null)
+export interface HistoryNode {
+  id: number;
+  parentId: number | null;
+  move: MoveData | null;
+  children: number[];
+  // 다시 실행 시 따라갈 자식 (가장 최근에 지나간 가지)
+  redoChildId: number | null;
+}
+
+// 현재 위치에서 특정 노드로 가기 위한 경로
+export interface HistoryPath {
+  undo: MoveData[];
+  redo: MoveData[];
+}
+
+// 게임 결과로 경신될 수 있는 기록
+export type StatRecord = "bestScore" | "bestTime" | "longestWinStreak";
+
 export interface DetailedStats extends GameStats {
   winRate: string;
   averageTime: number;
@@ -40,34 +73,119 @@ export class GameState {
   public moves: number = 0;
   public foundationCards: number = 0;
 
-  // 이동 기록 (되돌리기용)
-  private moveHistory: MoveData[] = [];
-  private readonly maxHistorySize: number = 100;
-
-  // 통계
-  public stats: GameStats = {
-    gamesPlayed: 0,
-    gamesWon: 0,
-    totalTime: 0,
-    totalMoves: 0,
-    bestTime: null,
-    bestScore: 0,
+  // 딜 번호 (덱 셔플 시드)
+  public dealSeed: number | null = null;
+
+  // 이번 게임의 게임 종류 (설정은 다음 게임부터 적용)
+  public variant: string = VariantRegistry.DEFAULT_ID;
+
+  // 이번 게임의 점수 방식 (설정은 다음 게임부터 적용)
+  public scoringMode: ScoringMode = "standard";
+
+  // 이번 게임이 모든 카드를 공개한 모두 공개 모드인지 (설정은 다음 게임부터 적용)
+  public isThoughtful: boolean = false;
+
+  // 이번 게임의 Stock 뽑기 수 (설정은 다음 게임부터 적용)
+  public drawCount: number = 3;
+
+  // 이번 게임의 Stock 넘기기 횟수 제한 (설정은 다음 게임부터 적용)
+  public maxStockPasses: number | null = null;
+
+  // 이번 게임의 규칙 구성 (통계를 나누는 기준)
+  public ruleKey: string = "";
+
+  // 이번 게임에서 사용한 힌트와 되돌리기 횟수
+  public hintsUsed: number = 0;
+  public undosUsed: number = 0;
+
+  // 첫 이동으로 이번 게임이 게임 수에 포함되었는지
+  private isGameCounted: boolean = false;
+
+  // 이번 게임의 결과가 통계에 반영되었는지 (중복 기록 방지)
+  private isResultRecorded: boolean = false;
+
+  // 이번 게임 결과로 경신된 기록
+  private newRecords: StatRecord[] = [];
+
+  // 이번 승리로 들어간 순위표 순위
+  private placements: LeaderboardPlacement[] = [];
+
+  // 이동 기록 트리 (되돌리기/다시 실행/분기 이동용)
+  private historyNodes: Map<number, HistoryNode> = new Map();
+  private currentNodeId: number = 0;
+  private nextNodeId: number = 1;
+
+  // 규칙 구성별 통계 (ALL_RULES는 모든 규칙의 합계)
+  static readonly ALL_RULES = "all";
+  private statsByRule: StatsByRule = {
+    [GameState.ALL_RULES]: GameState.createDefaultStats(),
+  };
+
+  private static readonly SCORING_NAMES: Record<string, string> = {
+    standard: "표준 점수",
+    vegas: "베가스 점수",
+    legacy: "기존 점수",
+  };
+
+  // 베가스 점수에서 뽑기 수별로 Stock을 넘길 수 있는 횟수
+  private static readonly VEGAS_STOCK_PASSES: Record<number, number> = {
+    1: 1,
+    3: 3,
   };
 
+  // 표준 점수의 시간 보너스 (30초 이상 걸린 승리에 700000 / 초)
+  private static readonly TIME_BONUS_BASE = 700000;
+  private static readonly TIME_BONUS_MIN_SECONDS = 30;
+
+  // 지난 게임 기록 보관함
+  public readonly archive: GameArchive = new GameArchive();
+
+  // 로컬 순위표
+  public readonly leaderboard: Leaderboard = new Leaderboard();
+
+  // 베가스 점수 잔고
+  public readonly bankroll: Bankroll = new Bankroll();
+
   // 게임 설정
   public settings: GameSettings = {
     drawCount: 3, // Stock에서 한 번에 뽑는 카드 수 (1 or 3)
+    scoringMode: "standard", // 점수 방식 (표준, 베가스 또는 기존 계산식)
+    vegasCumulative: false, // 베가스 잔고를 다음 게임으로 이어감
+    maxStockPasses: null, // Stock을 넘길 수 있는 횟수 (베가스 점수는 규칙대로 고정)
+    thoughtful: false, // 모든 카드를 앞면으로 딜 (모두 공개 모드)
+    variant: VariantRegistry.DEFAULT_ID, // 게임 종류
+    spiderSuits: 1, // 스파이더에서 쓰는 무늬 수 (1, 2, 4)
     allowUndo: true,
     showTimer: true,
     autoComplete: true,
     hintEnabled: true,
+    playerName: "플레이어",
   };
 
   constructor() {
     this.reset();
   }
 
-  public reset(): void {
+  // 빈 통계
+  public static createDefaultStats(): GameStats {
+    return {
+      gamesPlayed: 0,
+      gamesWon: 0,
+      gamesLost: 0,
+      gamesAbandoned: 0,
+      currentWinStreak: 0,
+      longestWinStreak: 0,
+      currentLossStreak: 0,
+      longestLossStreak: 0,
+      totalTime: 0,
+      totalMoves: 0,
+      bestTime: null,
+      bestScore: 0,
+    };
+  }
+
+  // 게임 상태 초기화 (keepDeal이면 같은 딜의 재시작으로 취급)
+  public reset(options: { keepDeal?: boolean } = {}): void {
     // 게임 기본 정보
     this.isGameStarted = false;
     this.isGameCompleted = false;
@@ -79,13 +197,30 @@ export class GameState {
     this.pausedTime = 0;
     this.pauseStartTime = null;
 
-    // 점수 시스템
-    this.score = 0;
+    // 같은 딜의 재시작은 규칙과 통계 기록을 그대로 이어감 (한 딜은 통계에서 한 게임)
+    if (!options.keepDeal) {
+      this.dealSeed = null;
+      this.isGameCounted = false;
+      this.isResultRecorded = false;
+      this.scoringMode = this.settings.scoringMode;
+      this.isThoughtful = this.settings.thoughtful;
+      this.drawCount = this.settings.drawCount;
+      this.maxStockPasses = this.settings.maxStockPasses;
+      this.variant = VariantRegistry.get(this.settings.variant).id;
+      this.ruleKey = GameState.getRuleKey(this.variant, this.settings);
+    }
+
+    // 점수 시스템 (베가스 점수는 판돈을 내고 시작)
+    this.score = this.scoringMode === "vegas" ? -Bankroll.DEAL_COST : 0;
     this.moves = 0;
     this.foundationCards = 0;
+    this.hintsUsed = 0;
+    this.undosUsed = 0;
+    this.newRecords = [];
+    this.placements = [];
 
     // 이동 기록 초기화
-    this.moveHistory = [];
+    this.resetHistory();
 
     console.log("게임 상태가 초기화되었습니다.");
   }
@@ -110,15 +245,26 @@ export class GameState {
     this.isGameCompleted = true;
     this.isGameStarted = false;
 
-    // 최종 점수 계산
-    this.score = Utils.calculateScore(
-      this.moves,
-      this.currentTime,
-      this.foundationCards
-    );
+    // 최종 점수 계산 (표준 점수는 시간 보너스 추가)
+    this.score = this.calculateScore(true);
+
+    // 통계 업데이트 (같은 딜을 재시작하기 전에 이미 결과가 기록되었으면 그대로 둠)
+    if (!this.isResultRecorded) {
+      this.isResultRecorded = true;
+      this.updateStats("won");
+    }
 
-    // 통계 업데이트
-    this.updateStats(true);
+    // 순위표 등록
+    this.placements = this.leaderboard.add({
+      name: this.settings.playerName,
+      date: Date.now(),
+      score: this.score,
+      time: this.currentTime,
+      moves: this.moves,
+      dealSeed: this.dealSeed,
+      drawCount: this.drawCount,
+      ruleKey: this.ruleKey,
+    });
 
     console.log(
       `게임 완료! 점수: ${this.score}, 시간: ${Utils.formatTime(
@@ -128,6 +274,34 @@ export class GameState {
     this.updateUI();
   }
 
+  // 막히거나 포기한 게임을 패배로 기록
+  public recordLoss(): void {
+    if (this.isGameCompleted || this.isResultRecorded) return;
+
+    this.isResultRecorded = true;
+    this.updateStats("lost");
+
+    console.log("패배로 기록되었습니다.");
+  }
+
+  // 끝내지 않고 떠난 게임 기록 (이동이 없었던 게임은 통계에 넣지 않음)
+  public recordAbandoned(): void {
+    if (this.isGameCompleted || this.isResultRecorded) return;
+    if (!this.isGameCounted) {
+      // 베가스 점수는 딜만 다시 받아 좋은 배치를 고를 수 없도록 판돈은 그대로 정산
+      if (this.isGameStarted && this.scoringMode === "vegas") {
+        this.isResultRecorded = true;
+        this.settleBankroll("abandoned");
+      }
+      return;
+    }
+
+    this.isResultRecorded = true;
+    this.updateStats("abandoned");
+
+    console.log("중단한 게임으로 기록되었습니다.");
+  }
+
   // 게임 일시정지/재개
   public togglePause(): void {
     if (!this.isGameStarted || this.isGameCompleted) return;
@@ -175,46 +349,171 @@ export class GameState {
 
     this.moves++;
 
-    // 이동 히스토리에 추가
-    this.moveHistory.push({
-      ...moveData,
-      timestamp: Date.now(),
-      moveNumber: this.moves,
-    });
-
-    // 히스토리 크기 제한
-    if (this.moveHistory.length > this.maxHistorySize) {
-      this.moveHistory.shift();
+    // 첫 이동을 한 게임부터 게임 수에 포함
+    if (!this.isGameCounted) {
+      this.isGameCounted = true;
+      this.getTrackedStats().forEach((stats) => stats.gamesPlayed++);
+      this.saveStats();
     }
 
+    // 현재 노드의 자식으로 새 가지 추가 (기존 가지는 트리에 남음)
+    const parent = this.getCurrentNode();
+    const node: HistoryNode = {
+      id: this.nextNodeId++,
+      parentId: parent.id,
+      move: {
+        ...moveData,
+        timestamp: Date.now(),
+        moveNumber: this.moves,
+      },
+      children: [],
+      redoChildId: null,
+    };
+    this.historyNodes.set(node.id, node);
+    parent.children.push(node.id);
+    parent.redoChildId = node.id;
+    this.currentNodeId = node.id;
+
     console.log(`이동 ${this.moves}: ${moveData.type}`);
-    this.updateUI();
+    this.updateScore();
   }
 
   // 되돌리기
   public undoLastMove(): MoveData | null {
-    if (!this.settings.allowUndo || this.moveHistory.length === 0) {
+    const current = this.getCurrentNode();
+    if (
+      !this.settings.allowUndo ||
+      !current.move ||
+      current.parentId === null
+    ) {
       console.log("되돌릴 수 있는 이동이 없습니다.");
       return null;
     }
 
-    const lastMove = this.moveHistory.pop();
-    if (lastMove) {
-      this.moves = Math.max(0, this.moves - 1);
-      console.log(`이동 되돌리기: ${lastMove.type}`);
-      this.updateUI();
-      return lastMove;
+    const parent = this.historyNodes.get(current.parentId);
+    if (!parent) return null;
+
+    parent.redoChildId = current.id;
+    this.currentNodeId = parent.id;
+    this.moves = Math.max(0, this.moves - 1);
+    this.undosUsed++;
+    console.log(`이동 되돌리기: ${current.move.type}`);
+    this.updateUI();
+    return current.move;
+  }
+
+  // 다시 실행
+  public redoMove(): MoveData | null {
+    const current = this.getCurrentNode();
+    const child =
+      current.redoChildId !== null
+        ? this.historyNodes.get(current.redoChildId)
+        : undefined;
+    if (!this.settings.allowUndo || !child || !child.move) {
+      console.log("다시 실행할 수 있는 이동이 없습니다.");
+      return null;
+    }
+
+    this.currentNodeId = child.id;
+    this.moves++;
+    console.log(`이동 다시 실행: ${child.move.type}`);
+    this.updateUI();
+    return child.move;
+  }
+
+  // 특정 노드로 이동하는 경로 계산 (공통 조상까지 되돌린 뒤 다시 실행)
+  public getPathToNode(targetId: number): HistoryPath | null {
+    if (!this.historyNodes.has(targetId)) return null;
+
+    const currentAncestors = this.getAncestorIds(this.currentNodeId);
+    const targetAncestors = this.getAncestorIds(targetId);
+    const targetSet = new Set(targetAncestors);
+    const commonId = currentAncestors.find((id) => targetSet.has(id)) ?? 0;
+
+    const undo: MoveData[] = [];
+    for (const id of currentAncestors) {
+      if (id === commonId) break;
+      const move = this.historyNodes.get(id)?.move;
+      if (move) undo.push(move);
+    }
+
+    const redo: MoveData[] = [];
+    for (const id of targetAncestors) {
+      if (id === commonId) break;
+      const move = this.historyNodes.get(id)?.move;
+      if (move) redo.unshift(move);
+    }
+
+    return { undo, redo };
+  }
+
+  // 경로를 따라 보드를 옮긴 뒤 현재 노드 변경
+  public setCurrentNode(targetId: number): void {
+    const target = this.historyNodes.get(targetId);
+    if (!target) return;
+
+    // 지나온 가지를 다시 실행 방향으로 기억
+    let node: HistoryNode | undefined = target;
+    while (node && node.parentId !== null) {
+      const parent = this.historyNodes.get(node.parentId);
+      if (parent) parent.redoChildId = node.id;
+      node = parent;
     }
 
-    return null;
+    this.currentNodeId = targetId;
+    this.moves = target.move?.moveNumber ?? 0;
+    this.updateUI();
+  }
+
+  // 이동 기록 트리 반환 (히스토리 패널용)
+  public getHistoryNodes(): HistoryNode[] {
+    return Array.from(this.historyNodes.values());
+  }
+
+  public getCurrentNodeId(): number {
+    return this.currentNodeId;
+  }
+
+  // 현재 지점까지 마지막으로 둔 수
+  public getCurrentMove(): MoveData | null {
+    return this.getCurrentNode().move;
+  }
+
+  private getCurrentNode(): HistoryNode {
+    return this.historyNodes.get(this.currentNodeId)!;
+  }
+
+  // 자신부터 루트까지의 노드 id 목록
+  private getAncestorIds(nodeId: number): number[] {
+    const ids: number[] = [];
+    let node = this.historyNodes.get(nodeId);
+    while (node) {
+      ids.push(node.id);
+      node =
+        node.parentId !== null
+          ? this.historyNodes.get(node.parentId)
+          : undefined;
+    }
+    return ids;
+  }
+
+  private resetHistory(): void {
+    this.historyNodes = new Map([
+      [
+        0,
+        { id: 0, parentId: null, move: null, children: [], redoChildId: null },
+      ],
+    ]);
+    this.currentNodeId = 0;
+    this.nextNodeId = 1;
   }
 
   // Foundation에 카드 추가
   public addToFoundation(card: { toString(): string }): boolean {
     this.foundationCards++;
 
-    // Foundation 완성 체크 (13장)
-    if (this.foundationCards === CONSTANTS.GAME.TOTAL_CARDS) {
+    // 모든 카드가 Foundation에 올라갔는지 체크
+    if (this.foundationCards === this.getTotalCards()) {
       this.completeGame();
       return true; // 게임 완료
     }
@@ -233,41 +532,355 @@ export class GameState {
   public updateScore(): void {
     if (!this.isGameStarted) return;
 
-    this.score = Utils.calculateScore(
-      this.moves,
-      this.currentTime,
-      this.foundationCards
-    );
+    this.score = this.calculateScore(false);
     this.updateUI();
   }
 
-  // 통계 업데이트
-  private updateStats(gameWon: boolean = false): void {
-    this.stats.gamesPlayed++;
-    this.stats.totalTime += this.currentTime;
-    this.stats.totalMoves += this.moves;
+  // 점수 방식별 점수 계산 (isFinal이면 게임 종료 보너스 포함)
+  private calculateScore(isFinal: boolean): number {
+    switch (this.scoringMode) {
+      case "standard":
+        return Math.max(
+          0,
+          this.getStandardPoints() + (isFinal ? this.getTimeBonus() : 0)
+        );
+      case "vegas":
+        return this.foundationCards * Bankroll.CARD_PAYOUT - Bankroll.DEAL_COST;
+      case "legacy":
+        return Utils.calculateScore(
+          this.moves,
+          this.currentTime,
+          this.foundationCards
+        );
+    }
+  }
 
-    if (gameWon) {
-      this.stats.gamesWon++;
+  // 표준 점수: 현재 노드까지 둔 수들의 점수 합 (되돌린 수는 빠짐)
+  private getStandardPoints(): number {
+    return this.getAncestorIds(this.currentNodeId).reduce(
+      (sum, id) => sum + (this.historyNodes.get(id)?.move?.points ?? 0),
+      0
+    );
+  }
 
-      // 최고 기록 업데이트
-      if (!this.stats.bestTime || this.currentTime < this.stats.bestTime) {
-        this.stats.bestTime = this.currentTime;
+  // 표준 점수의 게임 종료 시간 보너스
+  private getTimeBonus(): number {
+    if (this.currentTime < GameState.TIME_BONUS_MIN_SECONDS) return 0;
+    return Math.floor(GameState.TIME_BONUS_BASE / this.currentTime);
+  }
+
+  // Stock에서 한 번에 뽑는 카드 수 (게임 종류가 고정한 값이 설정보다 우선)
+  public getDrawCount(): number {
+    return VariantRegistry.get(this.variant).stockDraw?.count ?? this.drawCount;
+  }
+
+  // Stock을 넘길 수 있는 횟수 (제한이 없으면 null)
+  public getStockPassLimit(): number | null {
+    const stockDraw = VariantRegistry.get(this.variant).stockDraw;
+    if (stockDraw) return stockDraw.passes;
+    if (this.scoringMode === "vegas") {
+      return GameState.VEGAS_STOCK_PASSES[this.getDrawCount()] ?? null;
+    }
+    return this.maxStockPasses;
+  }
+
+  // 현재 노드까지 Waste를 Stock으로 재활용한 횟수
+  public getStockRecycles(): number {
+    return this.getAncestorIds(this.currentNodeId).filter(
+      (id) => this.historyNodes.get(id)?.move?.type === "waste_to_stock"
+    ).length;
+  }
+
+  // 남은 Waste 재활용 횟수 (재활용할 때마다 Stock을 한 번 더 넘김)
+  public getRecyclesLeft(): number | null {
+    const limit = this.getStockPassLimit();
+    if (limit === null) return null;
+    return Math.max(0, limit - 1 - this.getStockRecycles());
+  }
+
+  // Waste를 Stock으로 다시 돌릴 수 있는지
+  public canRecycleStock(): boolean {
+    return this.getRecyclesLeft() !== 0;
+  }
+
+  // 화면에 표시할 베가스 잔고 (누적하면 지난 잔고에 이번 게임 손익을 더함)
+  public getBankrollBalance(): number {
+    if (!this.settings.vegasCumulative) return this.score;
+    return this.isResultRecorded
+      ? this.bankroll.getBalance()
+      : this.bankroll.getBalance() + this.score;
+  }
+
+  // 통계 업데이트 (게임 수는 첫 이동 때 이미 반영됨)
+  private updateStats(result: GameResult): void {
+    if (!this.isGameCounted) {
+      this.isGameCounted = true;
+      this.getTrackedStats().forEach((stats) => stats.gamesPlayed++);
+    }
+
+    // 기록 경신은 같은 규칙 구성 안에서만 비교
+    this.applyResult(this.getStats(GameState.ALL_RULES), result);
+    this.newRecords = this.applyResult(this.stats, result);
+
+    // 로컬 스토리지에 저장
+    this.saveStats();
+
+    this.archive.add(
+      this.createRecord(result, {
+        dealSeed: this.dealSeed,
+        ruleKey: this.ruleKey,
+        drawCount: this.drawCount,
+        time: this.currentTime,
+        moves: this.moves,
+        score: this.score,
+        hintsUsed: this.hintsUsed,
+        undosUsed: this.undosUsed,
+      })
+    );
+
+    if (this.scoringMode === "vegas") {
+      this.settleBankroll(result);
+    }
+  }
+
+  // 이번 게임의 베가스 손익을 잔고에 정산
+  private settleBankroll(result: GameResult): void {
+    this.bankroll.settle(
+      {
+        dealSeed: this.dealSeed,
+        drawCount: this.drawCount,
+        result,
+        amount: this.score,
+        finishedAt: Date.now(),
+      },
+      this.settings.vegasCumulative
+    );
+  }
+
+  // 보관함에 남길 게임 기록 생성
+  private createRecord(
+    result: GameResult,
+    game: Omit<GameRecord, "result" | "variant" | "finishedAt">,
+    variant: string = this.variant
+  ): GameRecord {
+    return {
+      ...game,
+      variant,
+      result,
+      finishedAt: Date.now(),
+    };
+  }
+
+  // 한 통계에 게임 결과 반영 후 경신된 기록 반환
+  private applyResult(stats: GameStats, result: GameResult): StatRecord[] {
+    const records: StatRecord[] = [];
+
+    stats.totalTime += this.currentTime;
+    stats.totalMoves += this.moves;
+
+    if (result === "lost") {
+      stats.gamesLost++;
+    } else if (result === "abandoned") {
+      stats.gamesAbandoned++;
+    } else {
+      stats.gamesWon++;
+
+      // 최고 기록 업데이트 (첫 기록은 경신으로 보지 않음)
+      if (!stats.bestTime || this.currentTime < stats.bestTime) {
+        if (stats.bestTime) records.push("bestTime");
+        stats.bestTime = this.currentTime;
       }
 
-      if (this.score > this.stats.bestScore) {
-        this.stats.bestScore = this.score;
+      if (this.score > stats.bestScore) {
+        if (stats.bestScore > 0) records.push("bestScore");
+        stats.bestScore = this.score;
       }
     }
 
-    // 로컬 스토리지에 저장
+    if (this.updateStreaks(stats, result)) {
+      records.push("longestWinStreak");
+    }
+
+    return records;
+  }
+
+  // 연승/연패 기록 업데이트 (패배와 중단은 모두 연승을 끊음)
+  // 최장 연승을 경신했으면 true (1연승은 경신으로 보지 않음)
+  private updateStreaks(stats: GameStats, result: GameResult): boolean {
+    if (result !== "won") {
+      stats.currentWinStreak = 0;
+      stats.currentLossStreak++;
+      stats.longestLossStreak = Math.max(
+        stats.longestLossStreak,
+        stats.currentLossStreak
+      );
+      return false;
+    }
+
+    stats.currentWinStreak++;
+    stats.currentLossStreak = 0;
+
+    if (stats.currentWinStreak <= stats.longestWinStreak) return false;
+
+    stats.longestWinStreak = stats.currentWinStreak;
+    return stats.currentWinStreak > 1;
+  }
+
+  // 이번 게임 규칙 구성의 통계
+  public get stats(): GameStats {
+    return this.getStats(this.ruleKey);
+  }
+
+  // 규칙 구성의 통계 (아직 없으면 새로 만듦)
+  public getStats(ruleKey: string = this.ruleKey): GameStats {
+    if (!this.statsByRule[ruleKey]) {
+      this.statsByRule[ruleKey] = GameState.createDefaultStats();
+    }
+    return this.statsByRule[ruleKey];
+  }
+
+  // 통계가 쌓인 규칙 구성 목록 (합계 제외)
+  public getStatsRuleKeys(): string[] {
+    return Object.keys(this.statsByRule)
+      .filter((ruleKey) => ruleKey !== GameState.ALL_RULES)
+      .sort();
+  }
+
+  // 게임 결과를 반영할 통계: 해당 규칙 구성과 전체 합계
+  private getTrackedStats(ruleKey: string = this.ruleKey): GameStats[] {
+    return [this.getStats(ruleKey), this.getStats(GameState.ALL_RULES)];
+  }
+
+  // 규칙 구성 키 - 게임 종류, 뽑기 수, 점수 방식, Stock 넘기기 제한, 모두 공개 여부가
+  // 다르면 통계를 따로 모음 (베가스 점수의 넘기기 제한은 점수 방식에 포함됨)
+  // 뽑기 수와 넘기기 제한은 Stock에서 Waste로 뽑고 그 규칙을 고정하지 않은 게임 종류에만 해당
+  public static getRuleKey(
+    variant: string,
+    settings: Pick<
+      GameSettings,
+      | "drawCount"
+      | "scoringMode"
+      | "maxStockPasses"
+      | "thoughtful"
+      | "spiderSuits"
+    >
+  ): string {
+    const definition = VariantRegistry.get(variant);
+    const drawsToWaste =
+      definition.stockDealsTo === "waste" && !definition.stockDraw;
+
+    let ruleKey = drawsToWaste
+      ? `${variant}/draw-${settings.drawCount}/score-${settings.scoringMode}`
+      : `${variant}/score-${settings.scoringMode}`;
+    if (
+      drawsToWaste &&
+      settings.scoringMode !== "vegas" &&
+      settings.maxStockPasses !== null
+    ) {
+      ruleKey += `/passes-${settings.maxStockPasses}`;
+    }
+    definition
+      .getRuleParts?.({
+        drawCount: settings.drawCount,
+        allFaceUp: settings.thoughtful,
+        suitCount: settings.spiderSuits,
+      })
+      .forEach((part) => {
+        ruleKey += `/${part}`;
+      });
+    if (settings.thoughtful) {
+      ruleKey += "/open";
+    }
+    return ruleKey;
+  }
+
+  // 베가스 점수의 규칙 구성인지 (잔고 기록을 함께 보여줌)
+  public static isVegasRule(ruleKey: string): boolean {
+    return ruleKey.includes("/score-vegas");
+  }
+
+  // 규칙 구성 키에 담긴 스파이더 무늬 수 (무늬 수 규칙이 없으면 null)
+  public static getRuleSuitCount(ruleKey: string): number | null {
+    const match = /\/suits-(\d+)/.exec(ruleKey);
+    return match ? Number(match[1]) : null;
+  }
+
+  // 규칙 구성 키를 화면에 표시할 이름으로 변환
+  public static describeRuleKey(ruleKey: string): string {
+    if (ruleKey === GameState.ALL_RULES) return "전체";
+
+    return ruleKey
+      .split("/")
+      .map((part) => {
+        const draw = part.match(/^draw-(\d+)$/);
+        if (draw) return `${draw[1]}장 뽑기`;
+        const scoring = part.match(/^score-(\w+)$/);
+        if (scoring) return GameState.SCORING_NAMES[scoring[1]] ?? part;
+        const passes = part.match(/^passes-(\d+)$/);
+        if (passes) return `Stock ${passes[1]}번`;
+        const suits = part.match(/^suits-(\d+)$/);
+        if (suits) return `${suits[1]}무늬`;
+        if (part === "open") return "모두 공개";
+        return VariantRegistry.has(part)
+          ? VariantRegistry.get(part).name
+          : part;
+      })
+      .join(" · ");
+  }
+
+  // 저장된 통계를 규칙 구성별 형식으로 변환
+  // (규칙 구분이 없던 이전 통계는 전체 합계로 옮김)
+  private static migrateStats(saved: StatsByRule | GameStats): StatsByRule {
+    const buckets: StatsByRule =
+      typeof saved.gamesPlayed === "number"
+        ? { [GameState.ALL_RULES]: saved as GameStats }
+        : (saved as StatsByRule);
+
+    // 점수 방식 구분 전의 규칙 구성은 기존 점수로 옮김
+    const migrated: StatsByRule = {};
+    Object.entries(buckets).forEach(([ruleKey, stats]) => {
+      const key = GameState.withScoringMode(ruleKey);
+      migrated[key] = { ...GameState.createDefaultStats(), ...stats };
+    });
+    if (!migrated[GameState.ALL_RULES]) {
+      migrated[GameState.ALL_RULES] = GameState.createDefaultStats();
+    }
+    return migrated;
+  }
+
+  // 점수 방식이 없는 이전 규칙 구성 키에 기존 점수 방식 추가
+  public static withScoringMode(ruleKey: string): string {
+    if (ruleKey === GameState.ALL_RULES || ruleKey.includes("/score-")) {
+      return ruleKey;
+    }
+    return `${ruleKey}/score-legacy`;
+  }
+
+  // 마지막 게임 결과로 경신된 기록
+  public getNewRecords(): StatRecord[] {
+    return [...this.newRecords];
+  }
+
+  // 마지막 승리로 들어간 순위표 순위
+  public getPlacements(): LeaderboardPlacement[] {
+    return [...this.placements];
+  }
+
+  // 통계 초기화 (지난 게임 기록, 순위표, 베가스 잔고도 함께 삭제)
+  public resetStats(): void {
+    this.statsByRule = {
+      [GameState.ALL_RULES]: GameState.createDefaultStats(),
+    };
     this.saveStats();
+    this.archive.clear();
+    this.leaderboard.clear();
+    this.bankroll.clear();
   }
 
   // 통계 저장
   public saveStats(): void {
     try {
-      Utils.saveToStorage("solitaire_stats", this.stats);
+      Utils.saveToStorage("solitaire_stats", this.statsByRule);
       Utils.saveToStorage("solitaire_settings", this.settings);
     } catch (error) {
       console.warn("통계 저장 실패:", error);
@@ -277,15 +890,23 @@ export class GameState {
   // 통계 로드
   public loadStats(): void {
     try {
-      const savedStats = Utils.loadFromStorage<GameStats>("solitaire_stats");
+      const savedStats = Utils.loadFromStorage<StatsByRule | GameStats>(
+        "solitaire_stats"
+      );
       if (savedStats) {
-        this.stats = { ...this.stats, ...savedStats };
+        this.statsByRule = GameState.migrateStats(savedStats);
       }
+      this.archive.migrateRuleKeys(GameState.withScoringMode);
+      this.leaderboard.migrateRuleKeys(GameState.withScoringMode);
 
       const savedSettings =
         Utils.loadFromStorage<GameSettings>("solitaire_settings");
       if (savedSettings) {
         this.settings = { ...this.settings, ...savedSettings };
+        this.scoringMode = this.settings.scoringMode;
+        this.isThoughtful = this.settings.thoughtful;
+        this.variant = VariantRegistry.get(this.settings.variant).id;
+        this.ruleKey = GameState.getRuleKey(this.variant, this.settings);
       }
 
       console.log("저장된 통계를 불러왔습니다.");
@@ -313,13 +934,28 @@ export class GameState {
     if (undoButton) {
       undoButton.disabled = !this.canUndo();
     }
+
+    // 다시 실행 버튼 상태
+    const redoButton = Utils.getElementById("redoBtn") as HTMLButtonElement;
+    if (redoButton) {
+      redoButton.disabled = !this.canRedo();
+    }
   }
 
   // 게임 상태 확인 메서드들
   public canUndo(): boolean {
     return (
       this.settings.allowUndo &&
-      this.moveHistory.length > 0 &&
+      this.currentNodeId !== 0 &&
+      this.isGameStarted &&
+      !this.isGameCompleted
+    );
+  }
+
+  public canRedo(): boolean {
+    return (
+      this.settings.allowUndo &&
+      this.getCurrentNode().redoChildId !== null &&
       this.isGameStarted &&
       !this.isGameCompleted
     );
@@ -330,19 +966,26 @@ export class GameState {
   }
 
   public getProgress(): number {
-    return this.foundationCards / CONSTANTS.GAME.TOTAL_CARDS;
+    return this.foundationCards / this.getTotalCards();
+  }
+
+  // 이번 게임 종류가 쓰는 전체 카드 수
+  public getTotalCards(): number {
+    return (
+      VariantRegistry.get(this.variant).deckCount * CONSTANTS.GAME.TOTAL_CARDS
+    );
   }
 
-  public getWinRate(): string {
-    return this.stats.gamesPlayed > 0
-      ? ((this.stats.gamesWon / this.stats.gamesPlayed) * 100).toFixed(1)
+  public getWinRate(stats: GameStats = this.stats): string {
+    return stats.gamesPlayed > 0
+      ? ((stats.gamesWon / stats.gamesPlayed) * 100).toFixed(1)
       : "0";
   }
 
-  public getAverageTime(): number {
-    return this.stats.gamesWon > 0
-      ? Math.floor(this.stats.totalTime / this.stats.gamesWon)
-      : 0;
+  public getAverageTime(stats: GameStats = this.stats): number {
+    // 총 플레이 시간에는 패배와 중단한 게임의 시간도 들어 있으므로 끝난 게임 수로 나눔
+    const finished = stats.gamesWon + stats.gamesLost + stats.gamesAbandoned;
+    return finished > 0 ? Math.floor(stats.totalTime / finished) : 0;
   }
 
   // 설정 변경
@@ -367,25 +1010,21 @@ export class GameState {
       foundationCards: this.foundationCards,
       progress: this.getProgress(),
       canUndo: this.canUndo(),
+      canRedo: this.canRedo(),
     };
   }
 
-  // 상세 통계 반환
-  public getDetailedStats(): DetailedStats {
+  // 규칙 구성별 상세 통계 반환
+  public getDetailedStats(ruleKey: string = this.ruleKey): DetailedStats {
+    const stats = this.getStats(ruleKey);
     return {
-      ...this.stats,
-      winRate: this.getWinRate(),
-      averageTime: this.getAverageTime(),
-      currentStreak: this.calculateCurrentStreak(),
+      ...stats,
+      winRate: this.getWinRate(stats),
+      averageTime: this.getAverageTime(stats),
+      currentStreak: stats.currentWinStreak,
     };
   }
 
-  // 현재 연승 계산
-  private calculateCurrentStreak(): number {
-    // TODO: 연승 기록 구현
-    return 0;
-  }
-
   // 디버그 정보
   public debug(): void {
     console.log("=== 게임 상태 ===");
@@ -418,9 +1057,24 @@ export class GameState {
       score: this.score,
       moves: this.moves,
       foundationCards: this.foundationCards,
-
-      // 이동 기록
-      moveHistory: [...this.moveHistory],
+      hintsUsed: this.hintsUsed,
+      undosUsed: this.undosUsed,
+      isGameCounted: this.isGameCounted,
+      isResultRecorded: this.isResultRecorded,
+      scoringMode: this.scoringMode,
+      thoughtful: this.isThoughtful,
+      drawCount: this.drawCount,
+      maxStockPasses: this.maxStockPasses,
+      variant: this.variant,
+
+      // 딜 번호
+      dealSeed: this.dealSeed,
+
+      // 이동 기록 트리
+      history: {
+        nodes: Utils.deepClone(this.getHistoryNodes()),
+        currentNodeId: this.currentNodeId,
+      },
 
       // 설정
       settings: { ...this.settings },
@@ -447,10 +1101,11 @@ export class GameState {
       );
       if (!savedState) return false;
 
-      // 저장된 상태가 너무 오래된 경우 (24시간) 무시
+      // 저장된 상태가 너무 오래된 경우 (24시간) 중단한 게임으로 기록하고 무시
       const now = Date.now();
       const savedAt = savedState.savedAt || 0;
       if (now - savedAt > 24 * 60 * 60 * 1000) {
+        this.recordExpiredGame(savedState);
         Utils.removeFromStorage("solitaire_game_state");
         return false;
       }
@@ -468,9 +1123,32 @@ export class GameState {
       this.score = savedState.score;
       this.moves = savedState.moves;
       this.foundationCards = savedState.foundationCards;
-
-      this.moveHistory = savedState.moveHistory || [];
+      this.hintsUsed = savedState.hintsUsed ?? 0;
+      this.undosUsed = savedState.undosUsed ?? 0;
+      this.dealSeed = savedState.dealSeed ?? null;
+      // 모두 되돌려 이동이 0이 되어도 이미 게임 수에 포함된 게임일 수 있음
+      this.isGameCounted = savedState.isGameCounted ?? savedState.moves > 0;
+      this.isResultRecorded = savedState.isResultRecorded ?? false;
+
+      this.restoreHistory(savedState.history);
       this.settings = { ...this.settings, ...savedState.settings };
+      this.scoringMode = savedState.scoringMode ?? "legacy";
+      this.isThoughtful = savedState.thoughtful ?? false;
+      this.drawCount = savedState.drawCount ?? this.settings.drawCount;
+      this.maxStockPasses =
+        savedState.maxStockPasses !== undefined
+          ? savedState.maxStockPasses
+          : this.settings.maxStockPasses;
+      this.variant = VariantRegistry.get(
+        savedState.variant ?? VariantRegistry.DEFAULT_ID
+      ).id;
+      this.ruleKey = GameState.getRuleKey(this.variant, {
+        drawCount: this.drawCount,
+        scoringMode: this.scoringMode,
+        maxStockPasses: this.maxStockPasses,
+        thoughtful: this.isThoughtful,
+        spiderSuits: this.settings.spiderSuits,
+      });
 
       console.log("게임 상태가 복원되었습니다.");
       this.updateUI();
@@ -482,6 +1160,87 @@ export class GameState {
     }
   }
 
+  // 만료된 저장 게임을 중단한 게임으로 기록 (게임 수는 이전 세션에서 이미 반영됨)
+  private recordExpiredGame(savedState: SavedGameState): void {
+    if (savedState.isGameCompleted || savedState.isResultRecorded) return;
+
+    const variant = VariantRegistry.get(
+      savedState.variant ?? VariantRegistry.DEFAULT_ID
+    ).id;
+    const drawCount = savedState.drawCount ?? savedState.settings.drawCount;
+
+    // 베가스 점수의 판돈은 이동이 없었던 게임도 정산
+    if (savedState.scoringMode === "vegas") {
+      this.bankroll.settle(
+        {
+          dealSeed: savedState.dealSeed ?? null,
+          drawCount,
+          result: "abandoned",
+          amount: savedState.score,
+          finishedAt: Date.now(),
+        },
+        this.settings.vegasCumulative
+      );
+    }
+
+    // 이동이 없었던 게임은 통계와 보관함에 넣지 않음
+    if (!(savedState.isGameCounted ?? savedState.moves > 0)) return;
+
+    const ruleKey = GameState.getRuleKey(variant, {
+      drawCount,
+      scoringMode: savedState.scoringMode ?? "legacy",
+      maxStockPasses:
+        savedState.maxStockPasses !== undefined
+          ? savedState.maxStockPasses
+          : (savedState.settings.maxStockPasses ?? null),
+      thoughtful: savedState.thoughtful ?? false,
+      spiderSuits: savedState.settings.spiderSuits ?? 1,
+    });
+    this.getTrackedStats(ruleKey).forEach((stats) => {
+      stats.gamesAbandoned++;
+      stats.totalTime += savedState.currentTime;
+      stats.totalMoves += savedState.moves;
+      this.updateStreaks(stats, "abandoned");
+    });
+    this.saveStats();
+
+    this.archive.add(
+      this.createRecord(
+        "abandoned",
+        {
+          dealSeed: savedState.dealSeed ?? null,
+          ruleKey,
+          drawCount,
+          time: savedState.currentTime,
+          moves: savedState.moves,
+          score: savedState.score,
+          hintsUsed: savedState.hintsUsed ?? 0,
+          undosUsed: savedState.undosUsed ?? 0,
+        },
+        variant
+      )
+    );
+
+    console.log("만료된 저장 게임을 중단한 게임으로 기록했습니다.");
+  }
+
+  // 저장된 이동 기록 트리 복원
+  private restoreHistory(history?: SavedHistory): void {
+    this.resetHistory();
+    if (!history || history.nodes.length === 0) return;
+
+    this.historyNodes = new Map(history.nodes.map((node) => [node.id, node]));
+    if (!this.historyNodes.has(0)) {
+      this.resetHistory();
+      return;
+    }
+
+    this.currentNodeId = this.historyNodes.has(history.currentNodeId)
+      ? history.currentNodeId
+      : 0;
+    this.nextNodeId = Math.max(...this.historyNodes.keys()) + 1;
+  }
+
   // 저장된 게임 상태 삭제
   public clearSavedGameState(): void {
     try {
@@ -532,9 +1291,21 @@ interface SavedGameState {
   score: number;
   moves: number;
   foundationCards: number;
-
-  // 이동 기록
-  moveHistory: MoveData[];
+  hintsUsed?: number;
+  undosUsed?: number;
+  isGameCounted?: boolean; // 첫 이동으로 게임 수에 포함되었는지
+  isResultRecorded?: boolean; // 결과가 이미 통계에 반영되었는지 (같은 딜 재시작)
+  scoringMode?: ScoringMode;
+  thoughtful?: boolean;
+  drawCount?: number;
+  maxStockPasses?: number | null;
+  variant?: string;
+
+  // 딜 번호 (덱 셔플 시드)
+  dealSeed: number | null;
+
+  // 이동 기록 트리
+  history: SavedHistory;
 
   // 설정
   settings: GameSettings;
@@ -542,3 +1313,9 @@ interface SavedGameState {
   // 저장 시간
   savedAt: number;
 }
+
+// 저장된 이동 기록 트리
+interface SavedHistory {
+  nodes: HistoryNode[];
+  currentNodeId: number;
+}
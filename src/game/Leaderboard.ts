@@ -0,0 +1,147 @@
+// PixiJS 솔리테어 - 로컬 순위표 (전체 및 딜별 상위 10개 기록)
+
+import { Utils } from "@/utils/Utils";
+import type {
+  LeaderboardEntry,
+  LeaderboardCategory,
+  LeaderboardPlacement,
+  LeaderboardScope,
+} from "@/types/global";
+
+export class Leaderboard {
+  static readonly SIZE = 10;
+  static readonly CATEGORIES: readonly LeaderboardCategory[] = [
+    "score",
+    "time",
+    "moves",
+  ];
+  private static readonly STORAGE_KEY = "solitaire_leaderboards";
+
+  // 순위표 키 → 어느 한 분야라도 상위 10위 안에 드는 기록들
+  private boards: Record<string, LeaderboardEntry[]> = {};
+
+  constructor() {
+    this.load();
+  }
+
+  // 순위표 키 (규칙 구성별 전체, 또는 규칙 구성 + 딜 번호)
+  static getBoardKey(ruleKey: string, dealSeed: number | null = null): string {
+    return dealSeed === null ? ruleKey : `${ruleKey}#${dealSeed}`;
+  }
+
+  // 승리 기록 추가 후 들어간 순위 반환
+  public add(entry: LeaderboardEntry): LeaderboardPlacement[] {
+    const scopes: [LeaderboardScope, string][] = [
+      ["overall", Leaderboard.getBoardKey(entry.ruleKey)],
+    ];
+    if (entry.dealSeed !== null) {
+      scopes.push([
+        "deal",
+        Leaderboard.getBoardKey(entry.ruleKey, entry.dealSeed),
+      ]);
+    }
+
+    const placements: LeaderboardPlacement[] = [];
+    scopes.forEach(([scope, boardKey]) => {
+      const entries = [...(this.boards[boardKey] || []), entry];
+
+      Leaderboard.CATEGORIES.forEach((category) => {
+        const rank = Leaderboard.rank(entries, category).indexOf(entry);
+        if (rank !== -1) {
+          placements.push({ category, scope, rank: rank + 1 });
+        }
+      });
+
+      // 어느 분야에서도 상위에 들지 못한 기록은 버림
+      this.boards[boardKey] = entries.filter((candidate) =>
+        Leaderboard.CATEGORIES.some((category) =>
+          Leaderboard.rank(entries, category).includes(candidate)
+        )
+      );
+    });
+
+    this.save();
+    return placements;
+  }
+
+  // 분야별 상위 기록
+  public getTop(
+    category: LeaderboardCategory,
+    ruleKey: string,
+    dealSeed: number | null = null
+  ): LeaderboardEntry[] {
+    const entries = this.boards[Leaderboard.getBoardKey(ruleKey, dealSeed)];
+    return entries ? Leaderboard.rank(entries, category) : [];
+  }
+
+  // 기록이 있는 규칙 구성 목록
+  public getRuleKeys(): string[] {
+    return Object.keys(this.boards)
+      .filter((boardKey) => !boardKey.includes("#"))
+      .sort();
+  }
+
+  // 규칙 구성에서 딜별 기록이 있는 딜 번호 목록
+  public getDealSeeds(ruleKey: string): number[] {
+    const prefix = `${ruleKey}#`;
+    return Object.keys(this.boards)
+      .filter((boardKey) => boardKey.startsWith(prefix))
+      .map((boardKey) => Number(boardKey.slice(prefix.length)))
+      .sort((a, b) => a - b);
+  }
+
+  // 규칙 구성 키 형식이 바뀐 이전 기록 변환
+  public migrateRuleKeys(migrate: (ruleKey: string) => string): void {
+    const boards: Record<string, LeaderboardEntry[]> = {};
+    Object.entries(this.boards).forEach(([boardKey, entries]) => {
+      const [ruleKey, dealSeed] = boardKey.split("#");
+      const migratedKey =
+        dealSeed === undefined
+          ? migrate(ruleKey)
+          : `${migrate(ruleKey)}#${dealSeed}`;
+      boards[migratedKey] = entries.map((entry) => ({
+        ...entry,
+        ruleKey: migrate(entry.ruleKey),
+      }));
+    });
+    this.boards = boards;
+    this.save();
+  }
+
+  public clear(): void {
+    this.boards = {};
+    this.save();
+  }
+
+  // 분야별로 정렬한 상위 기록 (같은 기록이면 먼저 세운 기록이 앞)
+  private static rank(
+    entries: LeaderboardEntry[],
+    category: LeaderboardCategory
+  ): LeaderboardEntry[] {
+    const compare = (a: LeaderboardEntry, b: LeaderboardEntry): number => {
+      switch (category) {
+        case "score":
+          return b.score - a.score;
+        case "time":
+          return a.time - b.time;
+        case "moves":
+          return a.moves - b.moves;
+      }
+    };
+
+    return [...entries]
+      .sort((a, b) => compare(a, b) || a.date - b.date)
+      .slice(0, Leaderboard.SIZE);
+  }
+
+  private save(): void {
+    Utils.saveToStorage(Leaderboard.STORAGE_KEY, this.boards);
+  }
+
+  private load(): void {
+    this.boards =
+      Utils.loadFromStorage<Record<string, LeaderboardEntry[]>>(
+        Leaderboard.STORAGE_KEY
+      ) || {};
+  }
+}
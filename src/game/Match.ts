@@ -0,0 +1,89 @@
+// PixiJS 솔리테어 - 여러 판을 이어 치르는 경기 (골프 9홀 점수표)
+
+import { Utils } from "@/utils/Utils";
+import type { MatchRound } from "@/types/global";
+
+export class Match {
+  private static readonly STORAGE_KEY = "solitaire_match";
+
+  private variant: string | null = null;
+  private totalRounds: number = 0;
+  private rounds: MatchRound[] = [];
+
+  constructor() {
+    this.load();
+  }
+
+  // 이 게임 종류로 진행 중인 경기가 없으면 새 경기 시작 (다른 게임을 하다 와도 이어짐)
+  public ensure(variant: string, totalRounds: number): void {
+    if (
+      this.variant === variant &&
+      this.totalRounds === totalRounds &&
+      !this.isComplete()
+    ) {
+      return;
+    }
+    this.start(variant, totalRounds);
+  }
+
+  public start(variant: string, totalRounds: number): void {
+    this.variant = variant;
+    this.totalRounds = totalRounds;
+    this.rounds = [];
+    this.save();
+  }
+
+  // 끝난 판의 점수를 점수표에 기록
+  public recordRound(round: MatchRound): void {
+    if (this.variant === null || this.isComplete()) return;
+
+    this.rounds.push(round);
+    this.save();
+  }
+
+  public getVariant(): string | null {
+    return this.variant;
+  }
+
+  public getTotalRounds(): number {
+    return this.totalRounds;
+  }
+
+  // 기록된 판들 (오래된 순서)
+  public getRounds(): MatchRound[] {
+    return [...this.rounds];
+  }
+
+  // 지금 치르는 판 번호 (1부터, 경기가 끝났으면 마지막 판)
+  public getCurrentRound(): number {
+    return Math.min(this.rounds.length + 1, this.totalRounds);
+  }
+
+  // 지금까지의 합계 점수
+  public getTotal(): number {
+    return this.rounds.reduce((sum, round) => sum + round.score, 0);
+  }
+
+  public isComplete(): boolean {
+    return this.totalRounds > 0 && this.rounds.length >= this.totalRounds;
+  }
+
+  private save(): void {
+    Utils.saveToStorage(Match.STORAGE_KEY, {
+      variant: this.variant,
+      totalRounds: this.totalRounds,
+      rounds: this.rounds,
+    });
+  }
+
+  private load(): void {
+    const saved = Utils.loadFromStorage<{
+      variant: string | null;
+      totalRounds: number;
+      rounds: MatchRound[];
+    }>(Match.STORAGE_KEY);
+    this.variant = saved?.variant ?? null;
+    this.totalRounds = saved?.totalRounds ?? 0;
+    this.rounds = Array.isArray(saved?.rounds) ? saved.rounds : [];
+  }
+}
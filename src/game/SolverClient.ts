@@ -0,0 +1,72 @@
+// PixiJS 솔리테어 - 솔버 Worker 클라이언트 (TypeScript)
+
+import type { KlondikeState } from "@/engine/KlondikeEngine";
+import type { SolveResult } from "@/engine/KlondikeSolver";
+import type { SolverRequest, SolverResponse } from "@/engine/SolverWorker";
+
+interface PendingSolve {
+  resolve: (result: SolveResult) => void;
+  reject: (error: Error) => void;
+}
+
+export class SolverClient {
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingSolve>();
+  private nextRequestId: number = 1;
+
+  // 현재 상태를 Worker에서 탐색
+  public solve(state: KlondikeState, maxNodes?: number): Promise<SolveResult> {
+    return new Promise((resolve, reject) => {
+      const worker = this.getWorker();
+      const id = this.nextRequestId++;
+      this.pending.set(id, { resolve, reject });
+
+      const request: SolverRequest = { id, state, maxNodes };
+      worker.postMessage(request);
+    });
+  }
+
+  // 진행 중인 탐색을 모두 취소 (Worker를 종료하고 다음 요청 때 새로 생성)
+  public cancel(): void {
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+
+    this.pending.forEach((pending) => {
+      pending.reject(new Error("솔버 탐색이 취소되었습니다."));
+    });
+    this.pending.clear();
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(
+        new URL("../engine/SolverWorker.ts", import.meta.url),
+        { type: "module" }
+      );
+      this.worker.onmessage = (event: MessageEvent<SolverResponse>) => {
+        this.handleResponse(event.data);
+      };
+      this.worker.onerror = (event: ErrorEvent) => {
+        console.error("솔버 Worker 오류:", event.message);
+        this.cancel();
+      };
+    }
+    return this.worker;
+  }
+
+  private handleResponse(response: SolverResponse): void {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+
+    this.pending.delete(response.id);
+    const { id, ...result } = response;
+    pending.resolve(result);
+  }
+
+  // 메모리 정리
+  public destroy(): void {
+    this.cancel();
+  }
+}
@@ -20,9 +20,12 @@ declare global {
     'carddragend': CustomEvent<CardDragEventDetail>;
     'cardstockclicked': CustomEvent<CardEventDetail>;
     'carddoubleclick': CustomEvent<CardEventDetail>;
+    'cardselected': CustomEvent<CardEventDetail>;
     'cardcardflipped': CustomEvent<CardEventDetail>;
     'cardstack_stockclicked': CustomEvent<StackEventDetail>;
     'gameStateChanged': CustomEvent<GameStateEventDetail>;
+    'gameMoveMade': CustomEvent<GameMoveEventDetail>;
+    'gameCompleted': CustomEvent<GameCompletedEventDetail>;
   }
 
   interface Document {
@@ -31,6 +34,11 @@ declare global {
       listener: (this: Document, ev: CustomEventMap[K]) => any,
       options?: boolean | AddEventListenerOptions
     ): void;
+    removeEventListener<K extends keyof CustomEventMap>(
+      type: K,
+      listener: (this: Document, ev: CustomEventMap[K]) => any,
+      options?: boolean | EventListenerOptions
+    ): void;
     dispatchEvent<K extends keyof CustomEventMap>(ev: CustomEventMap[K]): boolean;
   }
 }
@@ -62,12 +70,24 @@ export interface GameStateEventDetail {
   foundationCards: number;
   progress: number;
   canUndo: boolean;
+  canRedo: boolean;
+}
+
+// 이동을 마친 뒤의 배치와 방금 둔 수
+export interface GameMoveEventDetail {
+  move: MoveData;
+  model: import('@/engine/KlondikeEngine').KlondikeState;
+}
+
+// 승리로 끝난 게임의 마지막 배치
+export interface GameCompletedEventDetail {
+  model: import('@/engine/KlondikeEngine').KlondikeState;
 }
 
 // 유틸리티 타입들
 export type Suit = 'hearts' | 'diamonds' | 'clubs' | 'spades';
 export type Rank = 'A' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K';
-export type StackType = 'stock' | 'waste' | 'foundation' | 'tableau';
+export type StackType = 'stock' | 'waste' | 'foundation' | 'tableau' | 'cell' | 'pyramid';
 
 export interface Position {
   x: number;
@@ -98,11 +118,56 @@ export interface MoveData {
   moveNumber?: number;
   stack?: string;
   stackIndex?: number;
+  points?: number; // 표준 점수 규칙으로 이 이동이 얻은 점수
+  sources?: { type: string; index: number }[]; // 짝 맞추기로 치운 카드들이 있던 스택 (cards와 같은 순서)
+}
+
+// 한 게임의 결과
+export type GameResult = 'won' | 'lost' | 'abandoned';
+
+// 게임 기록 보관함에 남기는 한 판의 기록
+export interface GameRecord {
+  dealSeed: number | null;
+  variant: string;
+  ruleKey: string; // 통계를 나누는 규칙 구성
+  drawCount: number;
+  result: GameResult;
+  time: number;
+  moves: number;
+  score: number;
+  hintsUsed: number;
+  undosUsed: number;
+  finishedAt: number;
+}
+
+// 베가스 점수로 끝난 한 판의 잔고 기록
+export interface BankrollEntry {
+  dealSeed: number | null;
+  drawCount: number;
+  result: GameResult;
+  amount: number; // 이번 게임의 손익 (판돈 포함)
+  balance: number; // 이번 게임 후 잔고 (누적하지 않으면 이번 게임 손익)
+  cumulative: boolean;
+  finishedAt: number;
+}
+
+// 여러 판을 이어 치르는 경기의 한 판 기록 (골프의 한 홀)
+export interface MatchRound {
+  dealSeed: number | null;
+  score: number; // 이 판의 점수 (낮을수록 좋음)
+  cleared: boolean; // 카드를 모두 치웠는지
+  finishedAt: number;
 }
 
 export interface GameStats {
   gamesPlayed: number;
   gamesWon: number;
+  gamesLost: number;
+  gamesAbandoned: number;
+  currentWinStreak: number;
+  longestWinStreak: number;
+  currentLossStreak: number; // 승리하지 못한 게임(패배, 중단)의 연속
+  longestLossStreak: number;
   totalTime: number;
   totalMoves: number;
   bestTime: number | null;
@@ -112,12 +177,49 @@ export interface GameStats {
   currentStreak?: number;
 }
 
+// 순위표 분야와 범위
+export type LeaderboardCategory = 'score' | 'time' | 'moves';
+export type LeaderboardScope = 'overall' | 'deal';
+
+// 순위표에 남기는 승리 기록
+export interface LeaderboardEntry {
+  name: string;
+  date: number;
+  score: number;
+  time: number;
+  moves: number;
+  dealSeed: number | null;
+  drawCount: number;
+  ruleKey: string;
+}
+
+// 새 기록이 들어간 순위
+export interface LeaderboardPlacement {
+  category: LeaderboardCategory;
+  scope: LeaderboardScope;
+  rank: number;
+}
+
+// 규칙 구성 키("klondike/draw-3" 등)별 통계
+export type StatsByRule = Record<string, GameStats>;
+
+// 점수 방식 (standard: Windows 방식 이동별 점수, vegas: 딜마다 판돈을 내는 베가스 방식,
+// legacy: 기존 계산식)
+export type ScoringMode = 'standard' | 'vegas' | 'legacy';
+
 export interface GameSettings {
   drawCount: number;
+  scoringMode: ScoringMode;
+  vegasCumulative: boolean; // 베가스 점수의 잔고를 게임 사이에 이어감
+  maxStockPasses: number | null; // Stock을 넘길 수 있는 횟수 (null이면 제한 없음)
+  thoughtful: boolean; // 모든 카드를 앞면으로 딜하는 모두 공개 모드
+  variant: string; // 게임 종류 (VariantRegistry의 id)
+  spiderSuits: number; // 스파이더에서 쓰는 무늬 수 (1, 2, 4)
   allowUndo: boolean;
   showTimer: boolean;
   autoComplete: boolean;
   hintEnabled: boolean;
+  playerName: string; // 순위표에 남길 이름
 }
 
 export {};
\ No newline at end of file
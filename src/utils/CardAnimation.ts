@@ -3,6 +3,7 @@
 import * as PIXI from "pixi.js";
 import { CONSTANTS } from "@/core/Constants";
 import type { Card } from "@/entities/Card";
+import type { CardStack } from "@/entities/CardStack";
 
 export class CardAnimation {
   private app: PIXI.Application;
@@ -49,6 +50,25 @@ export class CardAnimation {
     });
   }
 
+  // 스택의 카드들을 현재 배치 위치로 함께 이동 (Waste 펼침/접힘)
+  public async animateStackLayout(
+    stack: CardStack,
+    duration: number = CONSTANTS.ANIMATION.DURATION * 0.5
+  ): Promise<void> {
+    await Promise.all(
+      stack.cards.map((card, index) => {
+        const position = stack.getCardPosition(index);
+        if (
+          card.container.x === position.x &&
+          card.container.y === position.y
+        ) {
+          return Promise.resolve();
+        }
+        return this.animateCardMove(card, position.x, position.y, duration);
+      })
+    );
+  }
+
   // 카드 뒤집기 애니메이션
   public async animateCardFlip(card: Card): Promise<void> {
     return new Promise((resolve) => {
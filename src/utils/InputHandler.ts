@@ -61,11 +61,23 @@ export class InputHandler {
       this.handleCardDoubleClick(e);
     });
 
+    // 카드 선택 (짝 맞추기)
+    document.addEventListener("cardselected", (e: CustomEvent) => {
+      if (!this.enabled) return;
+      this.handleCardSelected(e);
+    });
+
     // Stock 클릭
     document.addEventListener("cardstockclicked", (e: CustomEvent) => {
       if (!this.enabled) return;
       this.handleStockClick(e);
     });
+
+    // Tableau 카드 뒤집기
+    document.addEventListener("cardcardflipped", (e: CustomEvent) => {
+      if (!this.enabled) return;
+      this.handleCardFlipped(e);
+    });
   }
 
   private handleCardDragStart(event: CustomEvent): void {
@@ -76,12 +88,10 @@ export class InputHandler {
     this.draggedCard = card;
     this.dragStartStack = card.currentStack;
 
-    // 다중 카드 드래그 (Tableau에서만)
-    if (card.currentStack?.type === "tableau") {
-      this.draggedCards = card.currentStack.getCardsFromIndex(card.stackIndex);
-    } else {
-      this.draggedCards = [card];
-    }
+    // 카드부터 맨 위까지 함께 드래그 (집어 들 수 있는지는 게임 종류 규칙으로 이미 확인됨)
+    this.draggedCards = card.currentStack
+      ? card.currentStack.getCardsFromIndex(card.stackIndex)
+      : [card];
 
     console.log(`드래그 시작: ${this.draggedCards.length}장의 카드`);
   }
@@ -127,11 +137,23 @@ export class InputHandler {
     this.gameController.handleCardDoubleClick(card);
   }
 
+  private handleCardSelected(event: CustomEvent): void {
+    const { card } = event.detail;
+    if (!card || !this.gameController) return;
+    this.gameController.handleCardSelect(card);
+  }
+
   private handleStockClick(event: CustomEvent): void {
     if (!this.gameController) return;
     this.gameController.handleStockClick();
   }
 
+  private handleCardFlipped(event: CustomEvent): void {
+    const { card } = event.detail;
+    if (!card || !this.gameController) return;
+    this.gameController.onCardFlipped(card);
+  }
+
   private findTargetStack(
     pointerEvent: PIXI.FederatedPointerEvent
   ): CardStack | null {
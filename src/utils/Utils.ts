@@ -2,18 +2,42 @@
 
 import { CONSTANTS } from '@/core/Constants';
 import type { Position, StackType, CardData, Suit } from '@/types/global';
+import type { PileRef } from '@/engine/KlondikeEngine';
+import type { LayoutMetrics, VariantDefinition } from '@/variants/Variant';
 
 export class Utils {
-  // 배열 셔플 (Fisher-Yates 알고리즘)
-  static shuffle<T>(array: T[]): T[] {
+  // 배열 셔플 (Fisher-Yates 알고리즘, 난수 생성기 지정 가능)
+  static shuffle<T>(array: T[], random: () => number = Math.random): T[] {
     const shuffled = [...array];
     for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(random() * (i + 1));
       [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
     }
     return shuffled;
   }
 
+  // 시드 기반 난수 생성기 (mulberry32) - 같은 시드는 항상 같은 수열을 만듦
+  static createSeededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  // 무작위 딜 번호 생성 (게임 종류마다 딜 번호 범위가 다를 수 있음)
+  static randomDealNumber(max: number = CONSTANTS.GAME.MAX_DEAL_NUMBER): number {
+    return Math.floor(Math.random() * max) + 1;
+  }
+
+  // 유효한 딜 번호인지 확인
+  static isValidDealNumber(value: number, max: number = CONSTANTS.GAME.MAX_DEAL_NUMBER): boolean {
+    return Number.isInteger(value) && value >= 1 && value <= max;
+  }
+
   // 52장 카드 덱 생성
   static createDeck(): CardData[] {
     const deck: CardData[] = [];
@@ -75,7 +99,12 @@ export class Utils {
       .padStart(2, '0')}`;
   }
 
-  // 점수 계산
+  // 금액 포맷팅 (베가스 점수)
+  static formatMoney(amount: number): string {
+    return `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString()}`;
+  }
+
+  // 점수 계산 (기존 계산식 - 'legacy' 점수 방식에서 사용)
   static calculateScore(moves: number, time: number, foundationCards: number): number {
     let score = 0;
 
@@ -118,55 +147,25 @@ export class Utils {
     return t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
   }
 
-  // 카드 더미 위치 계산
-  static getStackPosition(stackType: StackType, index: number = 0, scale: number = 1): Position {
-    // 현재 화면 크기 사용
-    const screenWidth = window.innerWidth;
-    const screenHeight = window.innerHeight;
-
-    const cardWidth = CONSTANTS.CARD_WIDTH * CONSTANTS.CARD_SCALE * scale;
-    const cardHeight = CONSTANTS.CARD_HEIGHT * CONSTANTS.CARD_SCALE * scale;
-
-    const horizontalGap = 10 * scale;
-    const margin = CONSTANTS.MARGIN * scale;
-
-    switch (stackType) {
-      case 'stock':
-        // 좌하단에 배치
-        return {
-          x: margin,
-          y: screenHeight - margin - cardHeight,
-        };
-
-      case 'waste':
-        // Stock 옆에 배치
-        return {
-          x: margin + cardWidth + horizontalGap,
-          y: screenHeight - margin - cardHeight,
-        };
-
-      case 'foundation':
-        // 우하단에 4개 배치
-        const foundationStartX =
-          screenWidth - margin - (cardWidth + horizontalGap) * 4;
-        return {
-          x: foundationStartX + index * (cardWidth + horizontalGap),
-          y: screenHeight - margin - cardHeight,
-        };
-
-      case 'tableau':
-        // 중앙 상단에 7개 배치
-        const tableauTotalWidth = cardWidth * 7 + horizontalGap * 6;
-        const tableauStartX = (screenWidth - tableauTotalWidth) / 2;
-        const tableauStartY = margin;
-        return {
-          x: tableauStartX + index * (cardWidth + horizontalGap),
-          y: tableauStartY,
-        };
-
-      default:
-        return { x: 0, y: 0 };
-    }
+  // 카드 더미 위치 계산 (배치는 게임 종류 정의가 결정)
+  static getStackPosition(
+    variant: VariantDefinition,
+    ref: PileRef,
+    scale: number = 1
+  ): Position {
+    return variant.getPilePosition(ref, Utils.getLayoutMetrics(scale));
+  }
+
+  // 현재 화면 크기 기준의 카드 배치 크기 정보
+  static getLayoutMetrics(scale: number = 1): LayoutMetrics {
+    return {
+      screenWidth: window.innerWidth,
+      screenHeight: window.innerHeight,
+      cardWidth: CONSTANTS.CARD_WIDTH * CONSTANTS.CARD_SCALE * scale,
+      cardHeight: CONSTANTS.CARD_HEIGHT * CONSTANTS.CARD_SCALE * scale,
+      gap: 10 * scale,
+      margin: CONSTANTS.MARGIN * scale,
+    };
   }
 
   // 디버그 정보 출력
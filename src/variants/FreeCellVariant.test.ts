@@ -0,0 +1,56 @@
+// PixiJS 솔리테어 - 프리셀 딜 번호 테스트 (마이크로소프트 프리셀과 같은 배치인지)
+
+import { describe, expect, it } from "vitest";
+import { CardIds } from "@/engine/CardIds";
+import { FREECELL, createMicrosoftDeal } from "@/variants/FreeCellVariant";
+
+// 마이크로소프트 프리셀 화면의 가로줄 (왼쪽 줄부터)
+const MS_DEALS: Record<number, string[]> = {
+  1: [
+    "J♦ 2♦ 9♥ J♣ 5♦ 7♥ 7♣ 5♥",
+    "K♦ K♣ 9♠ 5♠ A♦ Q♣ K♥ 3♥",
+    "2♠ K♠ 9♦ Q♦ J♠ A♠ A♥ 3♣",
+    "4♣ 5♣ 10♠ Q♥ 4♥ A♣ 4♦ 7♠",
+    "3♠ 10♦ 4♠ 10♥ 8♥ 2♣ J♥ 7♦",
+    "6♦ 8♠ 8♦ Q♠ 6♣ 3♦ 8♣ 10♣",
+    "6♠ 9♣ 2♥ 6♥",
+  ],
+  617: [
+    "7♦ A♦ 5♣ 3♠ 5♠ 8♣ 2♦ A♥",
+    "10♦ 7♠ Q♦ A♣ 6♦ 8♥ A♠ K♥",
+    "10♥ Q♣ 3♥ 9♦ 6♠ 8♦ 3♦ 10♣",
+    "K♦ 5♥ 9♠ 3♣ 8♠ 7♥ 4♦ J♠",
+    "4♣ Q♠ 9♣ 9♥ 7♣ 6♥ 2♣ 2♠",
+    "4♠ 10♠ 2♥ 5♦ J♣ 6♣ J♥ Q♥",
+    "J♦ K♠ K♣ 4♥",
+  ],
+};
+
+describe("createMicrosoftDeal", () => {
+  Object.entries(MS_DEALS).forEach(([dealNumber, rows]) => {
+    it(`딜 #${dealNumber}이 마이크로소프트 프리셀과 같다`, () => {
+      const labels = createMicrosoftDeal(Number(dealNumber)).map(
+        CardIds.toLabel
+      );
+
+      expect(labels).toEqual(rows.join(" ").split(" "));
+    });
+
+    it(`딜 #${dealNumber}을 8줄에 같은 순서로 놓는다`, () => {
+      const dealt = FREECELL.deal(FREECELL.getDealOrder!(Number(dealNumber)), {
+        drawCount: 1,
+        allFaceUp: true,
+        suitCount: 4,
+      });
+      const columns = dealt.map((pile) => pile.cards.map(CardIds.toLabel));
+      const expected = columns.map((_, column) =>
+        rows
+          .map((row) => row.split(" ")[column])
+          .filter((label) => label !== undefined)
+      );
+
+      expect(columns).toEqual(expected);
+      expect(dealt.every((pile) => pile.faceDown === 0)).toBe(true);
+    });
+  });
+});
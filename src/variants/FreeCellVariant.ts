@@ -0,0 +1,157 @@
+// PixiJS 솔리테어 - 프리셀 게임 종류 정의 (마이크로소프트 프리셀과 같은 딜 번호)
+
+import { CONSTANTS } from "@/core/Constants";
+import { CardIds, type CardId } from "@/engine/CardIds";
+import { KlondikeEngine } from "@/engine/KlondikeEngine";
+import type { VariantDefinition } from "@/variants/Variant";
+import type { Rank, Suit } from "@/types/global";
+
+const TABLEAU_COLUMNS = 8;
+const FREE_CELLS = 4;
+const MS_DEAL_COUNT = 32000; // 마이크로소프트 프리셀의 딜 번호 범위
+const MS_SUITS: readonly Suit[] = ["clubs", "diamonds", "hearts", "spades"];
+
+// 마이크로소프트 프리셀 딜 순서 (첫 카드부터 1번째 줄, 2번째 줄... 순서로 놓임)
+export function createMicrosoftDeal(dealNumber: number): CardId[] {
+  const total = CONSTANTS.GAME.TOTAL_CARDS;
+  // MS 카드 번호: 0부터 A♣ A♦ A♥ A♠ 2♣ ... 순서
+  const cards = Array.from({ length: total }, (_, index) => total - 1 - index);
+
+  let seed = dealNumber;
+  for (let i = 0; i < total; i++) {
+    // MSVC rand(): 선형 합동 생성기의 상위 15비트
+    seed = (seed * 214013 + 2531011) & 0x7fffffff;
+    const j = total - 1 - ((seed >> 16) % (total - i));
+    [cards[i], cards[j]] = [cards[j], cards[i]];
+  }
+
+  return cards.map((card) =>
+    CardIds.create(
+      MS_SUITS[card % MS_SUITS.length],
+      CONSTANTS.RANKS[Math.floor(card / MS_SUITS.length)] as Rank
+    )
+  );
+}
+
+export const FREECELL: VariantDefinition = {
+  id: "freecell",
+  name: "프리셀",
+  description:
+    "52장을 모두 앞면으로 8줄에 놓고, 빈 칸 4개를 잠시 두는 곳으로 쓰며 색을 번갈아 내림차순으로 쌓는 솔리테어",
+  piles: [
+    { type: "cell", count: FREE_CELLS },
+    { type: "foundation", count: CONSTANTS.GAME.FOUNDATION_PILES },
+    { type: "tableau", count: TABLEAU_COLUMNS },
+  ],
+  deckCount: 1,
+  stockDealsTo: null,
+  engine: null,
+  maxDealNumber: MS_DEAL_COUNT,
+
+  // 덱은 끝에서부터 딜하므로 MS 딜 순서를 뒤집어 둠
+  getDealOrder(dealNumber) {
+    return createMicrosoftDeal(dealNumber).reverse();
+  },
+
+  // 한 장씩 돌아가며 8줄에 모두 앞면으로 놓음 (앞 4줄 7장, 나머지 6장)
+  deal(order) {
+    const deck = [...order];
+    const tableau: CardId[][] = Array.from(
+      { length: TABLEAU_COLUMNS },
+      () => []
+    );
+
+    for (let i = 0; deck.length > 0; i++) {
+      tableau[i % TABLEAU_COLUMNS].push(deck.pop() as CardId);
+    }
+
+    return tableau.map((cards, index) => ({
+      ref: { type: "tableau" as const, index },
+      cards,
+      faceDown: 0,
+    }));
+  },
+
+  // Tableau에서는 색을 번갈아 내려가는 런을, 빈 칸과 Foundation은 한 장만 옮김
+  canPickUp(cards, from) {
+    switch (from.type) {
+      case "tableau":
+        return KlondikeEngine.isValidRun(cards);
+      case "cell":
+      case "foundation":
+        return cards.length === 1;
+      default:
+        return false;
+    }
+  },
+
+  // 빈 칸에는 한 장, 빈 줄에는 아무 카드나 놓을 수 있음
+  canBuild(cards, to, target) {
+    switch (to.type) {
+      case "cell":
+        return cards.length === 1 && target.length === 0;
+      case "foundation":
+        return (
+          cards.length === 1 &&
+          KlondikeEngine.canPlaceOnFoundation(cards[0], target)
+        );
+      case "tableau":
+        return (
+          target.length === 0 ||
+          KlondikeEngine.canPlaceOnTableau(cards[0], target)
+        );
+      default:
+        return false;
+    }
+  },
+
+  // 52장이 모두 Foundation에 올라가면 승리
+  isWon(board) {
+    const foundationCards = (board.foundation ?? []).reduce(
+      (sum, pile) => sum + pile.length,
+      0
+    );
+    return foundationCards === CONSTANTS.GAME.TOTAL_CARDS;
+  },
+
+  // 한 번에 옮길 수 있는 장수: (빈 칸 + 1) × 2^(빈 줄, 옮겨 갈 빈 줄은 제외)
+  getMaxMoveSize(board, to) {
+    const emptyCells = (board.cell ?? []).filter(
+      (pile) => pile.length === 0
+    ).length;
+    const tableau = board.tableau ?? [];
+    const emptyColumns = tableau.filter(
+      (pile, index) =>
+        pile.length === 0 && !(to.type === "tableau" && to.index === index)
+    ).length;
+
+    return (emptyCells + 1) * 2 ** emptyColumns;
+  },
+
+  // 빈 칸은 좌하단, Foundation은 우하단, Tableau 8줄은 위쪽 중앙
+  getPilePosition(ref, metrics) {
+    const { screenWidth, screenHeight, cardWidth, cardHeight, gap, margin } =
+      metrics;
+    const bottomY = screenHeight - margin - cardHeight;
+
+    switch (ref.type) {
+      case "cell":
+        return { x: margin + ref.index * (cardWidth + gap), y: bottomY };
+      case "foundation": {
+        const startX =
+          screenWidth -
+          margin -
+          (cardWidth + gap) * CONSTANTS.GAME.FOUNDATION_PILES;
+        return { x: startX + ref.index * (cardWidth + gap), y: bottomY };
+      }
+      case "tableau": {
+        const totalWidth =
+          cardWidth * TABLEAU_COLUMNS + gap * (TABLEAU_COLUMNS - 1);
+        const startX = (screenWidth - totalWidth) / 2;
+        return { x: startX + ref.index * (cardWidth + gap), y: margin };
+      }
+      default:
+        return { x: 0, y: 0 };
+    }
+  },
+};
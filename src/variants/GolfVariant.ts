@@ -0,0 +1,128 @@
+// PixiJS 솔리테어 - 골프 게임 종류 정의 (9홀 경기)
+
+import { CardIds, type CardId } from "@/engine/CardIds";
+import type { VariantDefinition } from "@/variants/Variant";
+
+const TABLEAU_COLUMNS = 7;
+const CARDS_PER_COLUMN = 5;
+const MATCH_HOLES = 9;
+
+// Waste 맨 위 카드와 한 끗 차이면 올릴 수 있음 (K와 A는 이어지지 않음)
+function fitsOnWaste(card: CardId, waste: CardId[]): boolean {
+  if (waste.length === 0) return false;
+  const top = waste[waste.length - 1];
+  return Math.abs(CardIds.value(card) - CardIds.value(top)) === 1;
+}
+
+export const GOLF: VariantDefinition = {
+  id: "golf",
+  name: "골프",
+  description:
+    "5장씩 7줄의 맨 위 카드를 버린 카드보다 한 끗 높거나 낮으면 옮겨 치우고, 남은 카드 수를 점수로 9홀을 겨루는 솔리테어",
+  piles: [
+    { type: "stock", count: 1 },
+    { type: "waste", count: 1 },
+    { type: "tableau", count: TABLEAU_COLUMNS },
+  ],
+  deckCount: 1,
+  stockDealsTo: "waste",
+  engine: null,
+  stockDraw: { count: 1, passes: 1 },
+  matchRounds: MATCH_HOLES,
+
+  // 7줄에 5장씩 모두 앞면으로 놓고, 한 장은 Waste에 펼쳐 시작, 나머지 16장은 Stock
+  deal(order, options) {
+    const deck = [...order];
+    const tableau: CardId[][] = Array.from(
+      { length: TABLEAU_COLUMNS },
+      () => []
+    );
+
+    for (let i = 0; i < TABLEAU_COLUMNS * CARDS_PER_COLUMN; i++) {
+      const card = deck.pop();
+      if (card !== undefined) tableau[i % TABLEAU_COLUMNS].push(card);
+    }
+
+    const waste = deck.length > 0 ? [deck.pop() as CardId] : [];
+    const stock: CardId[] = [];
+    while (deck.length > 0) {
+      stock.push(deck.pop() as CardId);
+    }
+
+    return [
+      {
+        ref: { type: "stock", index: 0 },
+        cards: stock,
+        faceDown: options.allFaceUp ? 0 : stock.length,
+      },
+      { ref: { type: "waste", index: 0 }, cards: waste, faceDown: 0 },
+      ...tableau.map((cards, index) => ({
+        ref: { type: "tableau" as const, index },
+        cards,
+        faceDown: 0,
+      })),
+    ];
+  },
+
+  // 카드 줄 맨 위 한 장만 옮길 수 있음
+  canPickUp(cards, from) {
+    return from.type === "tableau" && cards.length === 1;
+  },
+
+  // Waste로만 옮김
+  canBuild(cards, to, target) {
+    return (
+      to.type === "waste" && cards.length === 1 && fitsOnWaste(cards[0], target)
+    );
+  },
+
+  // 카드 줄을 모두 치우면 승리
+  isWon(board) {
+    return (board.tableau ?? []).every((pile) => pile.length === 0);
+  },
+
+  // Stock이 비었고 Waste에 올릴 카드 줄 맨 위 카드가 없으면 홀 종료
+  isOver(board) {
+    const waste = board.waste?.[0] ?? [];
+    const stockEmpty = (board.stock ?? []).every((pile) => pile.length === 0);
+    return (
+      stockEmpty &&
+      (board.tableau ?? []).every(
+        (pile) =>
+          pile.length === 0 || !fitsOnWaste(pile[pile.length - 1], waste)
+      )
+    );
+  },
+
+  // 카드 줄에 남은 카드 수 (모두 치우면 Stock에 남은 카드 수만큼 감점)
+  getRoundScore(board) {
+    const left = (board.tableau ?? []).reduce(
+      (sum, pile) => sum + pile.length,
+      0
+    );
+    if (left > 0) return left;
+    return -(board.stock ?? []).reduce((sum, pile) => sum + pile.length, 0);
+  },
+
+  // Stock과 Waste는 좌하단, Tableau 7줄은 위쪽 중앙
+  getPilePosition(ref, metrics) {
+    const { screenWidth, screenHeight, cardWidth, cardHeight, gap, margin } =
+      metrics;
+    const bottomY = screenHeight - margin - cardHeight;
+
+    switch (ref.type) {
+      case "stock":
+        return { x: margin, y: bottomY };
+      case "waste":
+        return { x: margin + cardWidth + gap, y: bottomY };
+      case "tableau": {
+        const totalWidth =
+          cardWidth * TABLEAU_COLUMNS + gap * (TABLEAU_COLUMNS - 1);
+        const startX = (screenWidth - totalWidth) / 2;
+        return { x: startX + ref.index * (cardWidth + gap), y: margin };
+      }
+      default:
+        return { x: 0, y: 0 };
+    }
+  },
+};
@@ -0,0 +1,113 @@
+// PixiJS 솔리테어 - 클론다이크 게임 종류 정의 (규칙은 KlondikeEngine과 공유)
+
+import { CONSTANTS } from "@/core/Constants";
+import { KlondikeEngine } from "@/engine/KlondikeEngine";
+import type { VariantDefinition } from "@/variants/Variant";
+
+export const KLONDIKE: VariantDefinition = {
+  id: "klondike",
+  name: "클론다이크",
+  description:
+    "7줄의 카드 줄을 색을 번갈아 내림차순으로 쌓으며 네 무늬를 A부터 K까지 정리하는 기본 솔리테어",
+  piles: [
+    { type: "stock", count: 1 },
+    { type: "waste", count: 1 },
+    { type: "foundation", count: CONSTANTS.GAME.FOUNDATION_PILES },
+    { type: "tableau", count: CONSTANTS.GAME.TABLEAU_COLUMNS },
+  ],
+  deckCount: 1,
+  stockDealsTo: "waste",
+  engine: "klondike",
+
+  // 1장부터 7장까지 계단식으로 놓고 맨 위만 앞면, 나머지는 Stock
+  deal(order, options) {
+    const state = KlondikeEngine.createState(
+      order,
+      options.drawCount,
+      null,
+      options.allFaceUp
+    );
+
+    return [
+      {
+        ref: { type: "stock", index: 0 },
+        cards: state.stock,
+        faceDown: options.allFaceUp ? 0 : state.stock.length,
+      },
+      ...state.tableau.map((cards, index) => ({
+        ref: { type: "tableau" as const, index },
+        cards,
+        faceDown: state.faceDown[index],
+      })),
+    ];
+  },
+
+  // Tableau에서는 색을 번갈아 내려가는 런을, 나머지는 맨 위 한 장만 옮김
+  canPickUp(cards, from) {
+    switch (from.type) {
+      case "tableau":
+        return KlondikeEngine.isValidRun(cards);
+      case "waste":
+      case "foundation":
+        return cards.length === 1;
+      default:
+        return false;
+    }
+  },
+
+  canBuild(cards, to, target, targetFaceDown) {
+    switch (to.type) {
+      case "foundation":
+        return (
+          cards.length === 1 &&
+          KlondikeEngine.canPlaceOnFoundation(cards[0], target)
+        );
+      case "tableau":
+        return KlondikeEngine.canPlaceOnTableau(
+          cards[0],
+          target,
+          targetFaceDown
+        );
+      default:
+        return false; // Stock과 Waste로는 직접 옮길 수 없음
+    }
+  },
+
+  // 52장이 모두 Foundation에 올라가면 승리
+  isWon(board) {
+    const foundationCards = (board.foundation ?? []).reduce(
+      (sum, pile) => sum + pile.length,
+      0
+    );
+    return foundationCards === CONSTANTS.GAME.TOTAL_CARDS;
+  },
+
+  // Stock과 Waste는 좌하단, Foundation은 우하단, Tableau는 위쪽 중앙
+  getPilePosition(ref, metrics) {
+    const { screenWidth, screenHeight, cardWidth, cardHeight, gap, margin } =
+      metrics;
+    const bottomY = screenHeight - margin - cardHeight;
+
+    switch (ref.type) {
+      case "stock":
+        return { x: margin, y: bottomY };
+      case "waste":
+        return { x: margin + cardWidth + gap, y: bottomY };
+      case "foundation": {
+        const startX =
+          screenWidth -
+          margin -
+          (cardWidth + gap) * CONSTANTS.GAME.FOUNDATION_PILES;
+        return { x: startX + ref.index * (cardWidth + gap), y: bottomY };
+      }
+      case "tableau": {
+        const columns = CONSTANTS.GAME.TABLEAU_COLUMNS;
+        const totalWidth = cardWidth * columns + gap * (columns - 1);
+        const startX = (screenWidth - totalWidth) / 2;
+        return { x: startX + ref.index * (cardWidth + gap), y: margin };
+      }
+      default:
+        return { x: 0, y: 0 };
+    }
+  },
+};
@@ -0,0 +1,129 @@
+// PixiJS 솔리테어 - 피라미드 게임 종류 정의
+
+import { CardIds, type CardId } from "@/engine/CardIds";
+import type { VariantDefinition } from "@/variants/Variant";
+
+const PYRAMID_ROWS = 7;
+const PYRAMID_CARDS = (PYRAMID_ROWS * (PYRAMID_ROWS + 1)) / 2; // 28장
+const PAIR_TOTAL = 13; // 짝의 합 (K는 혼자서 13)
+const STOCK_PASSES = 3; // Stock을 넘길 수 있는 횟수 (한 장씩 뽑음)
+
+// 피라미드 자리 번호: 맨 위 줄부터 왼쪽에서 오른쪽으로 0..27
+function rowStart(row: number): number {
+  return (row * (row + 1)) / 2;
+}
+
+function rowOf(index: number): number {
+  let row = 0;
+  while (rowStart(row + 1) <= index) row++;
+  return row;
+}
+
+// index 자리를 덮고 있는 바로 아래 줄의 두 자리 (맨 아래 줄은 없음)
+export function getCoveringIndexes(index: number): number[] {
+  const row = rowOf(index);
+  if (row >= PYRAMID_ROWS - 1) return [];
+
+  const below = rowStart(row + 1) + (index - rowStart(row));
+  return [below, below + 1];
+}
+
+export const PYRAMID: VariantDefinition = {
+  id: "pyramid",
+  name: "피라미드",
+  description:
+    "28장을 겹쳐 쌓은 피라미드에서 덮이지 않은 카드 두 장의 합이 13이 되도록 짝지어 치우는 솔리테어 (K는 혼자 치움)",
+  piles: [
+    { type: "stock", count: 1 },
+    { type: "waste", count: 1 },
+    { type: "foundation", count: 1 },
+    { type: "pyramid", count: PYRAMID_CARDS },
+  ],
+  deckCount: 1,
+  stockDealsTo: "waste",
+  engine: null,
+  stockDraw: { count: 1, passes: STOCK_PASSES },
+
+  // 피라미드 자리마다 한 장씩 앞면으로 놓고 나머지 24장은 Stock
+  deal(order, options) {
+    const deck = [...order];
+    const pyramid = Array.from({ length: PYRAMID_CARDS }, () =>
+      deck.pop()
+    ).filter((card): card is CardId => card !== undefined);
+
+    const stock: CardId[] = [];
+    while (deck.length > 0) {
+      stock.push(deck.pop() as CardId);
+    }
+
+    return [
+      {
+        ref: { type: "stock", index: 0 },
+        cards: stock,
+        faceDown: options.allFaceUp ? 0 : stock.length,
+      },
+      ...pyramid.map((card, index) => ({
+        ref: { type: "pyramid" as const, index },
+        cards: [card],
+        faceDown: 0,
+      })),
+    ];
+  },
+
+  // 카드는 끌어서 옮기지 않고 클릭으로 짝을 지어 치움
+  canPickUp() {
+    return false;
+  },
+
+  canBuild() {
+    return false;
+  },
+
+  // 피라미드를 모두 치우면 승리
+  isWon(board) {
+    return (board.pyramid ?? []).every((pile) => pile.length === 0);
+  },
+
+  // 아래 줄의 두 카드 중 하나라도 남아 있으면 덮여 있음
+  isCovered(board, ref) {
+    if (ref.type !== "pyramid") return false;
+
+    const pyramid = board.pyramid ?? [];
+    return getCoveringIndexes(ref.index).some(
+      (index) => (pyramid[index]?.length ?? 0) > 0
+    );
+  },
+
+  // 두 장의 합이 13이거나 K 한 장
+  canPair(cards) {
+    const total = cards.reduce((sum, card) => sum + CardIds.value(card), 0);
+    return cards.length >= 1 && cards.length <= 2 && total === PAIR_TOTAL;
+  },
+
+  // 피라미드는 위쪽 중앙에 절반씩 겹쳐 쌓고, Stock과 Waste는 좌하단, 치운 카드는 우하단
+  getPilePosition(ref, metrics) {
+    const { screenWidth, screenHeight, cardWidth, cardHeight, gap, margin } =
+      metrics;
+    const bottomY = screenHeight - margin - cardHeight;
+
+    switch (ref.type) {
+      case "stock":
+        return { x: margin, y: bottomY };
+      case "waste":
+        return { x: margin + cardWidth + gap, y: bottomY };
+      case "foundation":
+        return { x: screenWidth - margin - cardWidth, y: bottomY };
+      case "pyramid": {
+        const row = rowOf(ref.index);
+        const rowWidth = cardWidth * (row + 1) + gap * row;
+        const startX = (screenWidth - rowWidth) / 2;
+        return {
+          x: startX + (ref.index - rowStart(row)) * (cardWidth + gap),
+          y: margin + row * (cardHeight / 2),
+        };
+      }
+      default:
+        return { x: 0, y: 0 };
+    }
+  },
+};
@@ -0,0 +1,145 @@
+// PixiJS 솔리테어 - 스파이더 게임 종류 정의
+
+import { CONSTANTS } from "@/core/Constants";
+import { CardIds, type CardId } from "@/engine/CardIds";
+import type { VariantDefinition } from "@/variants/Variant";
+import type { Suit } from "@/types/global";
+
+const TABLEAU_COLUMNS = 10;
+const FOUNDATION_PILES = 8;
+const DEALT_CARDS = 54; // 처음에 카드 줄에 놓는 카드 수 (앞 4줄 6장, 나머지 5장)
+
+// 무늬 수(난이도)별 사용하는 무늬
+const SUIT_SETS: Record<number, readonly Suit[]> = {
+  1: ["spades"],
+  2: ["spades", "hearts"],
+  4: CONSTANTS.SUITS,
+};
+
+// 같은 무늬로 1씩 내려가는 런인지
+function isSameSuitRun(cards: CardId[]): boolean {
+  return cards.every(
+    (card, index) =>
+      index === 0 ||
+      (CardIds.suit(card) === CardIds.suit(cards[index - 1]) &&
+        CardIds.value(card) === CardIds.value(cards[index - 1]) - 1)
+  );
+}
+
+export const SPIDER: VariantDefinition = {
+  id: "spider",
+  name: "스파이더",
+  description:
+    "두 벌의 카드로 10줄에 무늬와 상관없이 내림차순으로 쌓고, 같은 무늬로 K부터 A까지 모으면 치워지는 솔리테어",
+  piles: [
+    { type: "stock", count: 1 },
+    { type: "foundation", count: FOUNDATION_PILES },
+    { type: "tableau", count: TABLEAU_COLUMNS },
+  ],
+  deckCount: 2,
+  stockDealsTo: "tableau",
+  engine: null,
+
+  getSuits(options) {
+    return SUIT_SETS[options.suitCount] ?? SUIT_SETS[1];
+  },
+
+  getRuleParts(options) {
+    return [`suits-${SUIT_SETS[options.suitCount] ? options.suitCount : 1}`];
+  },
+
+  // 카드 줄에 한 장씩 돌아가며 54장을 놓고 맨 위만 앞면, 나머지 50장은 Stock
+  deal(order, options) {
+    const deck = [...order];
+    const tableau: CardId[][] = Array.from(
+      { length: TABLEAU_COLUMNS },
+      () => []
+    );
+
+    for (let i = 0; i < DEALT_CARDS; i++) {
+      const card = deck.pop();
+      if (card !== undefined) tableau[i % TABLEAU_COLUMNS].push(card);
+    }
+
+    const stock: CardId[] = [];
+    while (deck.length > 0) {
+      stock.push(deck.pop() as CardId);
+    }
+
+    return [
+      {
+        ref: { type: "stock", index: 0 },
+        cards: stock,
+        faceDown: options.allFaceUp ? 0 : stock.length,
+      },
+      ...tableau.map((cards, index) => ({
+        ref: { type: "tableau" as const, index },
+        cards,
+        faceDown: options.allFaceUp ? 0 : Math.max(0, cards.length - 1),
+      })),
+    ];
+  },
+
+  // 같은 무늬로 이어진 런만 함께 옮길 수 있음
+  canPickUp(cards, from) {
+    return from.type === "tableau" && isSameSuitRun(cards);
+  },
+
+  // 무늬와 상관없이 1 큰 카드 위나 빈 줄에 놓음 (Foundation은 완성된 런만 자동으로)
+  canBuild(cards, to, target, targetFaceDown) {
+    if (to.type !== "tableau") return false;
+    if (target.length === 0) return true;
+    if (targetFaceDown >= target.length) return false;
+
+    return (
+      CardIds.value(cards[0]) === CardIds.value(target[target.length - 1]) - 1
+    );
+  },
+
+  // 104장이 모두 Foundation으로 치워지면 승리
+  isWon(board) {
+    const foundationCards = (board.foundation ?? []).reduce(
+      (sum, pile) => sum + pile.length,
+      0
+    );
+    return foundationCards === CONSTANTS.GAME.TOTAL_CARDS * 2;
+  },
+
+  // 빈 카드 줄이 있으면 Stock에서 딜할 수 없음
+  canDealStock(board) {
+    return (board.tableau ?? []).every((pile) => pile.length > 0);
+  },
+
+  isCompletedRun(cards) {
+    return (
+      cards.length === CONSTANTS.GAME.CARDS_PER_SUIT &&
+      CardIds.rank(cards[0]) === "K" &&
+      isSameSuitRun(cards)
+    );
+  },
+
+  // Stock은 좌하단, Foundation은 우하단에 겹치지 않게, Tableau 10줄은 위쪽 중앙
+  getPilePosition(ref, metrics) {
+    const { screenWidth, screenHeight, cardWidth, cardHeight, gap, margin } =
+      metrics;
+    const bottomY = screenHeight - margin - cardHeight;
+
+    switch (ref.type) {
+      case "stock":
+        return { x: margin, y: bottomY };
+      case "foundation": {
+        const startX =
+          screenWidth - margin - (cardWidth + gap) * FOUNDATION_PILES;
+        return { x: startX + ref.index * (cardWidth + gap), y: bottomY };
+      }
+      case "tableau": {
+        const totalWidth =
+          cardWidth * TABLEAU_COLUMNS + gap * (TABLEAU_COLUMNS - 1);
+        const startX = (screenWidth - totalWidth) / 2;
+        return { x: startX + ref.index * (cardWidth + gap), y: margin };
+      }
+      default:
+        return { x: 0, y: 0 };
+    }
+  },
+};
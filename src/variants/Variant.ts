@@ -0,0 +1,101 @@
+// PixiJS 솔리테어 - 게임 종류(변형) 정의 형식 (렌더러 없이 사용하는 순수 TypeScript)
+
+import type { CardId } from "@/engine/CardIds";
+import type { PileRef } from "@/engine/KlondikeEngine";
+import type { Position, StackType, Suit } from "@/types/global";
+
+// 게임 종류가 쓰는 스택 종류와 개수
+export interface PileDefinition {
+  type: StackType;
+  count: number;
+}
+
+// 딜에 필요한 게임 설정
+export interface DealOptions {
+  drawCount: number;
+  allFaceUp: boolean; // 모든 카드를 앞면으로 딜 (모두 공개 모드)
+  suitCount: number; // 덱에 쓰는 무늬 수 (스파이더 난이도)
+}
+
+// 딜 결과 한 스택 - cards는 마지막 요소가 맨 위, 아래쪽 faceDown장은 뒷면
+export interface DealtPile {
+  ref: PileRef;
+  cards: CardId[];
+  faceDown: number;
+}
+
+// 스택 종류별 카드 배열 (승리 조건 확인용, 없는 종류는 빈 목록)
+export type VariantBoard = Partial<Record<StackType, CardId[][]>>;
+
+// 화면 배치 계산에 쓰는 크기 정보
+export interface LayoutMetrics {
+  screenWidth: number;
+  screenHeight: number;
+  cardWidth: number;
+  cardHeight: number;
+  gap: number;
+  margin: number;
+}
+
+// 게임 종류 정의 - 스택 구성, 딜 모양, 쌓기/옮기기 규칙, 승리 조건, 화면 배치
+export interface VariantDefinition {
+  id: string; // 규칙 구성 키의 첫 부분으로도 사용
+  name: string;
+  description: string;
+  piles: PileDefinition[];
+  deckCount: number; // 사용하는 52장 덱 수
+  stockDealsTo: StackType | null; // Stock을 클릭하면 카드가 가는 곳 (Stock이 없으면 null)
+  engine: "klondike" | null; // 솔버, 승리 수순 힌트, 막힘 판정에 쓰는 엔진
+  maxDealNumber?: number; // 딜 번호 범위 (없으면 CONSTANTS.GAME.MAX_DEAL_NUMBER)
+  stockDraw?: { count: number; passes: number }; // 설정 대신 고정된 뽑기 수와 Stock 넘기기 횟수
+  matchRounds?: number; // 여러 딜을 이어 한 경기로 치를 때의 판 수 (점수는 getRoundScore의 합)
+
+  // 덱에 쓰는 무늬 (없으면 네 무늬 모두, 적은 무늬는 같은 장수가 되도록 반복)
+  getSuits?(options: DealOptions): readonly Suit[];
+
+  // 통계를 나누는 규칙 구성 키에 덧붙일 부분
+  getRuleParts?(options: DealOptions): string[];
+
+  // 딜 번호로 정해진 카드 순서 (없으면 덱을 딜 번호로 셔플)
+  getDealOrder?(dealNumber: number): CardId[];
+
+  // 카드 순서(덱의 끝에서부터 딜)로 초기 배치
+  deal(order: CardId[], options: DealOptions): DealtPile[];
+
+  // 스택에서 맨 위 cards(아래쪽 카드부터)를 함께 집어 들 수 있는지
+  canPickUp(cards: CardId[], from: PileRef): boolean;
+
+  // cards(아래쪽 카드부터)를 target 카드들이 있는 스택 to에 올릴 수 있는지
+  canBuild(
+    cards: CardId[],
+    to: PileRef,
+    target: CardId[],
+    targetFaceDown: number
+  ): boolean;
+
+  isWon(board: VariantBoard): boolean;
+
+  // 더 둘 수 있는 수가 없어 판이 끝났는지 (없으면 끝나지 않음)
+  isOver?(board: VariantBoard): boolean;
+
+  // 한 판의 점수 (낮을수록 좋음, 경기 점수표에 합산)
+  getRoundScore?(board: VariantBoard): number;
+
+  // 스택 ref의 카드가 다른 스택의 카드에 덮여 있어 쓸 수 없는지 (없으면 덮이지 않음)
+  isCovered?(board: VariantBoard, ref: PileRef): boolean;
+
+  // 클릭으로 고른 카드들을 함께 치울 수 있는지 (있으면 드래그 대신 짝 맞추기로 진행)
+  canPair?(cards: CardId[]): boolean;
+
+  // 스택 to로 한 번에 옮길 수 있는 최대 카드 수 (없으면 제한 없음)
+  getMaxMoveSize?(board: VariantBoard, to: PileRef): number;
+
+  // Stock에서 카드 줄로 딜할 수 있는 배치인지 (없으면 항상 가능)
+  canDealStock?(board: VariantBoard): boolean;
+
+  // 카드 줄 맨 위 카드들이 Foundation으로 치울 완성된 한 벌인지 (없으면 치우지 않음)
+  isCompletedRun?(cards: CardId[]): boolean;
+
+  // 스택의 화면 위치 (왼쪽 위 모서리)
+  getPilePosition(ref: PileRef, metrics: LayoutMetrics): Position;
+}
@@ -0,0 +1,28 @@
+// PixiJS 솔리테어 - 게임 종류 목록 (새 게임 종류는 VARIANTS에 추가)
+
+import { KLONDIKE } from "@/variants/KlondikeVariant";
+import { SPIDER } from "@/variants/SpiderVariant";
+import { FREECELL } from "@/variants/FreeCellVariant";
+import { PYRAMID } from "@/variants/PyramidVariant";
+import { GOLF } from "@/variants/GolfVariant";
+import type { VariantDefinition } from "@/variants/Variant";
+
+export const VARIANTS: VariantDefinition[] = [KLONDIKE, SPIDER, FREECELL, PYRAMID, GOLF];
+
+export class VariantRegistry {
+  static readonly DEFAULT_ID = KLONDIKE.id;
+
+  // 새 게임 선택 창에 보여줄 순서대로
+  static list(): VariantDefinition[] {
+    return [...VARIANTS];
+  }
+
+  static has(id: string): boolean {
+    return VARIANTS.some((variant) => variant.id === id);
+  }
+
+  // 알 수 없는 id(삭제된 게임 종류의 저장 데이터 등)는 기본 게임 종류로 대신함
+  static get(id: string): VariantDefinition {
+    return VARIANTS.find((variant) => variant.id === id) ?? KLONDIKE;
+  }
+}